@@ -0,0 +1,163 @@
+// Modo agente de /chat: el modelo llama a herramientas registradas hasta dar una respuesta
+import { defaultLanguage, languageProfile, type LanguageCode } from './language';
+import { completeChatWithTools, type AgentMessage, type ToolCompletion } from './llm';
+import { estimateTokens } from './relevance';
+import { defaultToolRegistry, type ToolRegistry } from './tools';
+import type { ChatMessage, Env, TokenUsage } from './types';
+
+export const DEFAULT_AGENT_MAX_STEPS = 5;
+export const DEFAULT_AGENT_TOKEN_BUDGET = 8000;
+export const MAX_AGENT_STEPS = 10;
+
+// Tokens de salida por llamada; el presupuesto restante puede reducirlo
+const MAX_STEP_OUTPUT_TOKENS = 500;
+// Por debajo de esto no merece la pena pedir la respuesta final
+export const MIN_FINAL_ANSWER_TOKENS = 100;
+
+export type AgentStopReason = 'answer' | 'max_steps' | 'token_budget';
+
+export interface AgentLoopOptions {
+	question: string;
+	history?: ChatMessage[];
+	language?: LanguageCode;
+	sessionId?: string;
+	maxSteps?: number;
+	tokenBudget?: number;
+	registry?: ToolRegistry;
+}
+
+// Una llamada a herramienta tal como la pidió el modelo y lo que devolvió
+export interface ToolTraceEntry {
+	step: number;
+	id: string;
+	tool: string;
+	arguments: unknown; // JSON parseado, o el texto tal cual si no era JSON válido
+	result: unknown;
+	error?: string;
+	durationMs: number;
+}
+
+export interface AgentLoopResult {
+	answer: string;
+	stopReason: AgentStopReason;
+	steps: number; // Llamadas al modelo, incluida la respuesta final
+	toolCalls: ToolTraceEntry[];
+	usage: TokenUsage;
+	tokenBudget: number;
+	provider?: string;
+	model?: string;
+}
+
+export function agentMaxSteps(env: Env, requested?: number): number {
+	const steps = requested ?? (env.AGENT_MAX_STEPS ? Number(env.AGENT_MAX_STEPS) : DEFAULT_AGENT_MAX_STEPS);
+	return Math.min(Math.max(Math.floor(steps) || DEFAULT_AGENT_MAX_STEPS, 1), MAX_AGENT_STEPS);
+}
+
+export function agentTokenBudget(env: Env, requested?: number): number {
+	const budget = requested ?? (env.AGENT_TOKEN_BUDGET ? Number(env.AGENT_TOKEN_BUDGET) : DEFAULT_AGENT_TOKEN_BUDGET);
+	return Number.isFinite(budget) && budget > 0 ? Math.floor(budget) : DEFAULT_AGENT_TOKEN_BUDGET;
+}
+
+function agentSystemPrompt(language: LanguageCode, toolNames: string[]): string {
+	return `Eres un asistente útil con acceso a herramientas: ${toolNames.join(", ")}.
+Usa search_knowledge_base antes de responder preguntas sobre la base de conocimientos y get_document cuando necesites el texto completo de un documento. No inventes datos que las herramientas no hayan devuelto; si no encuentras la información, dilo.
+Cuando tengas suficiente información, responde sin llamar a más herramientas. ${languageProfile(language).replyInstruction}`;
+}
+
+function parseArguments(raw: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch {
+		return raw;
+	}
+}
+
+// Los proveedores que no devuelven usage se contabilizan con la misma estimación que el contexto
+function completionUsage(messages: AgentMessage[], completion: ToolCompletion): TokenUsage {
+	if (completion.usage) return completion.usage;
+	const prompt_tokens = estimateTokens(JSON.stringify(messages));
+	const completion_tokens = estimateTokens(completion.content + JSON.stringify(completion.toolCalls));
+	return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+/**
+ * Bucle de function calling: en cada paso el modelo responde o pide
+ * herramientas, que se ejecutan y se le devuelven como mensajes `tool`. Se
+ * detiene al responder, al llegar a `maxSteps` (el último paso se pide sin
+ * herramientas para forzar una respuesta) o al agotar `tokenBudget`, que
+ * cuenta los tokens de entrada y salida de todas las llamadas.
+ */
+export async function runAgentLoop(env: Env, options: AgentLoopOptions): Promise<AgentLoopResult> {
+	const language = options.language ?? defaultLanguage(env);
+	const registry = options.registry ?? defaultToolRegistry();
+	const maxSteps = agentMaxSteps(env, options.maxSteps);
+	const tokenBudget = agentTokenBudget(env, options.tokenBudget);
+	const tools = registry.definitions();
+
+	const messages: AgentMessage[] = [
+		{ role: "system", content: agentSystemPrompt(language, tools.map(tool => tool.function.name)) },
+		...(options.history ?? []),
+		{ role: "user", content: options.question }
+	];
+	const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+	const trace: ToolTraceEntry[] = [];
+	let steps = 0;
+	let answeredBy: { provider: string; model: string } | undefined;
+
+	const call = async (toolChoice: 'auto' | 'none'): Promise<ToolCompletion> => {
+		const remaining = tokenBudget - usage.total_tokens;
+		const completion = await completeChatWithTools(env, messages, tools, {
+			max_tokens: Math.min(MAX_STEP_OUTPUT_TOKENS, remaining),
+			tool_choice: toolChoice
+		});
+		const stepUsage = completionUsage(messages, completion);
+		usage.prompt_tokens += stepUsage.prompt_tokens;
+		usage.completion_tokens += stepUsage.completion_tokens;
+		usage.total_tokens += stepUsage.total_tokens;
+		answeredBy = { provider: completion.provider, model: completion.model };
+		steps++;
+		return completion;
+	};
+
+	const result = (answer: string, stopReason: AgentStopReason): AgentLoopResult => ({
+		answer: answer || languageProfile(language).emptyAnswer,
+		stopReason,
+		steps,
+		toolCalls: trace,
+		usage,
+		tokenBudget,
+		...answeredBy
+	});
+
+	while (steps < maxSteps) {
+		if (tokenBudget - usage.total_tokens < MIN_FINAL_ANSWER_TOKENS) {
+			return result("", 'token_budget');
+		}
+
+		// El último paso se pide sin herramientas para que el modelo responda con lo que tiene
+		const lastStep = steps === maxSteps - 1;
+		const completion = await call(lastStep ? 'none' : 'auto');
+		if (lastStep || completion.toolCalls.length === 0) {
+			return result(completion.content, lastStep ? 'max_steps' : 'answer');
+		}
+
+		messages.push({ role: "assistant", content: completion.content || null, tool_calls: completion.toolCalls });
+		// Secuencial: el orden de la traza coincide con el de los mensajes `tool`
+		for (const toolCall of completion.toolCalls) {
+			const start = Date.now();
+			const output = await registry.call(toolCall.function.name, toolCall.function.arguments, { env, sessionId: options.sessionId });
+			trace.push({
+				step: steps,
+				id: toolCall.id,
+				tool: toolCall.function.name,
+				arguments: parseArguments(toolCall.function.arguments),
+				result: parseArguments(output.content),
+				error: output.error,
+				durationMs: Date.now() - start
+			});
+			messages.push({ role: "tool", tool_call_id: toolCall.id, content: output.content });
+		}
+	}
+
+	return result("", 'max_steps');
+}
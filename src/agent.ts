@@ -0,0 +1,1253 @@
+// Durable Object para funcionalidades avanzadas del Agent
+import { cosineSimilarity, type CacheEntryInput, type CachedAnswer } from './answer-cache';
+import { toFtsQuery, type KeywordChunk } from './keyword-index';
+import type { EvalRunRecord, EvalRunSummary } from './eval-store';
+import { matchesFilter } from './filters';
+import { ingestionBatch, ingestionEnv, jobRetryDelay, MAX_BATCH_DOCUMENTS, MAX_JOB_ATTEMPTS, runIngestionBatch, type IngestionJob, type JobDocument, type JobDocumentResult, type JobInput, type JobStatus, type PendingJobDocument } from './jobs';
+import type { LocalVectorQuery } from './local';
+import { consume, type RateLimitCounter, type RateLimits, type RateLimitState } from './rate-limit';
+import { SATISFIED_RATING, type Feedback, type FeedbackInput, type FeedbackStats, type RatedInteraction, type SatisfactionSummary } from './feedback';
+import type { DocumentRecord } from './registry';
+import { percentile, type StageLatency } from './tracing';
+import type { UsageRow } from './usage';
+import type { Env, Interaction, InteractionSource } from './types';
+
+/**
+ * Migraciones del esquema SQLite. Cada versión se aplica una sola vez y en
+ * orden; para cambiar el esquema se añade una versión nueva al final, nunca
+ * se edita una existente.
+ */
+const MIGRATIONS: string[][] = [
+	// v1: registro de documentos (IF NOT EXISTS: ya existía antes de las migraciones)
+	[
+		`CREATE TABLE IF NOT EXISTS documents (
+			id TEXT PRIMARY KEY,
+			title TEXT,
+			source TEXT,
+			r2_key TEXT,
+			content_type TEXT,
+			content_hash TEXT NOT NULL,
+			chunk_count INTEGER NOT NULL,
+			chunk_size INTEGER NOT NULL,
+			chunk_overlap INTEGER NOT NULL,
+			embedding_model TEXT,
+			created_at TEXT NOT NULL,
+			updated_at TEXT NOT NULL
+		)`
+	],
+	// v2: historial de conversaciones, una fila por interacción
+	[
+		`CREATE TABLE interactions (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			question TEXT NOT NULL,
+			answer TEXT NOT NULL,
+			used_rag INTEGER NOT NULL,
+			timestamp TEXT NOT NULL
+		)`,
+		`CREATE INDEX interactions_timestamp ON interactions (timestamp)`
+	],
+	// v3: índice de palabras clave (BM25) de los chunks, mantenido junto a Vectorize.
+	// Los documentos indexados antes de esta versión entran al re-embeberlos con PUT /documents/:id
+	[
+		`CREATE VIRTUAL TABLE chunks_fts USING fts5(
+			content,
+			title,
+			chunk_id UNINDEXED,
+			document_id UNINDEXED,
+			metadata UNINDEXED,
+			tokenize = 'unicode61 remove_diacritics 2'
+		)`
+	],
+	// v4: ejecuciones de POST /eval para comparar métricas entre cambios
+	[
+		`CREATE TABLE eval_runs (
+			id TEXT PRIMARY KEY,
+			name TEXT,
+			created_at TEXT NOT NULL,
+			item_count INTEGER NOT NULL,
+			k INTEGER NOT NULL,
+			routing_accuracy REAL,
+			recall_at_k REAL,
+			mrr REAL,
+			config TEXT NOT NULL,
+			report TEXT NOT NULL
+		)`,
+		`CREATE INDEX eval_runs_created_at ON eval_runs (created_at)`
+	],
+	// v5: contadores de rate limiting y cuotas, una fila por cliente (API key, usuario del JWT o IP)
+	[
+		`CREATE TABLE rate_limits (
+			client_id TEXT PRIMARY KEY,
+			label TEXT,
+			tokens REAL NOT NULL,
+			refilled_at INTEGER NOT NULL,
+			day TEXT NOT NULL,
+			day_count INTEGER NOT NULL,
+			month TEXT NOT NULL,
+			month_count INTEGER NOT NULL,
+			blocked_count INTEGER NOT NULL,
+			last_request_at TEXT
+		)`
+	],
+	// v6: uso de modelos agregado por día, tipo (chat/embedding), ruta y modelo
+	[
+		`CREATE TABLE usage_daily (
+			day TEXT NOT NULL,
+			kind TEXT NOT NULL,
+			route TEXT NOT NULL,
+			provider TEXT NOT NULL,
+			model TEXT NOT NULL,
+			calls INTEGER NOT NULL,
+			inputs INTEGER NOT NULL,
+			prompt_tokens INTEGER NOT NULL,
+			completion_tokens INTEGER NOT NULL,
+			PRIMARY KEY (day, kind, route, provider, model)
+		)`
+	],
+	// v7: caché semántica de respuestas; el embedding de la pregunta se guarda como Float32 y los documentos citados aparte para invalidar
+	[
+		`CREATE TABLE answer_cache (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			scope TEXT NOT NULL,
+			question TEXT NOT NULL,
+			embedding BLOB NOT NULL,
+			answer TEXT NOT NULL,
+			used_rag INTEGER NOT NULL,
+			hits INTEGER NOT NULL DEFAULT 0,
+			created_at TEXT NOT NULL,
+			expires_at INTEGER NOT NULL
+		)`,
+		"CREATE INDEX idx_answer_cache_scope ON answer_cache (scope, expires_at)",
+		`CREATE TABLE answer_cache_documents (
+			entry_id INTEGER NOT NULL,
+			document_id TEXT NOT NULL,
+			PRIMARY KEY (entry_id, document_id)
+		)`,
+		"CREATE INDEX idx_answer_cache_documents ON answer_cache_documents (document_id)"
+	],
+	// v8: ruta y fuentes de cada interacción y valoraciones de las respuestas (POST /feedback)
+	[
+		"ALTER TABLE interactions ADD COLUMN route TEXT",
+		`CREATE TABLE interaction_sources (
+			interaction_id INTEGER NOT NULL,
+			document_id TEXT NOT NULL,
+			title TEXT,
+			score REAL NOT NULL,
+			in_context INTEGER NOT NULL,
+			cited INTEGER NOT NULL,
+			PRIMARY KEY (interaction_id, document_id)
+		)`,
+		"CREATE INDEX interaction_sources_document ON interaction_sources (document_id)",
+		`CREATE TABLE feedback (
+			interaction_id INTEGER PRIMARY KEY,
+			rating INTEGER NOT NULL,
+			comment TEXT,
+			corrected_answer TEXT,
+			created_at TEXT NOT NULL,
+			updated_at TEXT NOT NULL
+		)`,
+		"CREATE INDEX feedback_rating ON feedback (rating)"
+	],
+	// v9: duración de cada etapa del pipeline por interacción, para los percentiles de latencia de /stats
+	[
+		`CREATE TABLE interaction_timings (
+			interaction_id INTEGER NOT NULL,
+			stage TEXT NOT NULL,
+			duration_ms REAL NOT NULL,
+			PRIMARY KEY (interaction_id, stage)
+		)`
+	],
+	// v10: índice de vectores del modo local (LOCAL_MODE), en lugar de Vectorize
+	[
+		`CREATE TABLE local_vectors (
+			id TEXT PRIMARY KEY,
+			namespace TEXT,
+			embedding BLOB NOT NULL,
+			metadata TEXT
+		)`,
+		"CREATE INDEX local_vectors_namespace ON local_vectors (namespace)"
+	],
+	// v11: jobs de ingesta asíncrona (POST /jobs); el contenido de cada documento se guarda hasta indexarlo
+	[
+		`CREATE TABLE ingestion_jobs (
+			id TEXT PRIMARY KEY,
+			tenant_id TEXT NOT NULL,
+			status TEXT NOT NULL,
+			chunk_size INTEGER NOT NULL,
+			chunk_overlap INTEGER NOT NULL,
+			created_at TEXT NOT NULL,
+			updated_at TEXT NOT NULL,
+			completed_at TEXT
+		)`,
+		"CREATE INDEX ingestion_jobs_status ON ingestion_jobs (status, created_at)",
+		`CREATE TABLE ingestion_job_items (
+			job_id TEXT NOT NULL,
+			position INTEGER NOT NULL,
+			document_id TEXT NOT NULL,
+			title TEXT,
+			source TEXT,
+			content TEXT,
+			status TEXT NOT NULL,
+			attempts INTEGER NOT NULL DEFAULT 0,
+			chunks INTEGER,
+			error TEXT,
+			PRIMARY KEY (job_id, position)
+		)`,
+		"CREATE INDEX ingestion_job_items_status ON ingestion_job_items (job_id, status)"
+	],
+	// v12: reintentos automáticos de los jobs (ms epoch del próximo intento) y el último error al preparar un lote
+	[
+		"ALTER TABLE ingestion_job_items ADD COLUMN retry_at INTEGER",
+		"ALTER TABLE ingestion_jobs ADD COLUMN error TEXT"
+	],
+	// v13: la instancia "analytics" guarda una copia de las interacciones de todas las sesiones, con su sesión e ID de origen
+	[
+		"ALTER TABLE interactions ADD COLUMN session_id TEXT",
+		"ALTER TABLE interactions ADD COLUMN session_interaction_id INTEGER",
+		"CREATE INDEX interactions_session ON interactions (session_id, session_interaction_id)"
+	]
+];
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 200;
+
+function isDecodablePath(path: string): boolean {
+	try {
+		decodeURIComponent(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export class MyAgent implements DurableObject {
+	private storage: DurableObjectStorage;
+	private env: Env;
+
+	constructor(state: DurableObjectState, env: Env) {
+		this.storage = state.storage;
+		this.env = env;
+
+		state.blockConcurrencyWhile(async () => {
+			this.migrate();
+			await this.importLegacyHistory();
+		});
+	}
+
+	private migrate() {
+		this.storage.sql.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			applied_at TEXT NOT NULL
+		)`);
+		const { version } = this.storage.sql
+			.exec<{ version: number | null }>("SELECT MAX(version) AS version FROM schema_migrations")
+			.one();
+
+		for (let next = (version ?? 0) + 1; next <= MIGRATIONS.length; next++) {
+			this.storage.transactionSync(() => {
+				for (const statement of MIGRATIONS[next - 1]) {
+					this.storage.sql.exec(statement);
+				}
+				this.storage.sql.exec(
+					"INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)", next, new Date().toISOString()
+				);
+			});
+		}
+	}
+
+	// Las versiones anteriores guardaban todo el historial en un único valor "chat_history"
+	private async importLegacyHistory() {
+		const legacy = await this.storage.get<Interaction[]>("chat_history");
+		if (!legacy) return;
+
+		this.storage.transactionSync(() => {
+			for (const item of legacy) {
+				this.storage.sql.exec(
+					"INSERT INTO interactions (question, answer, used_rag, timestamp) VALUES (?, ?, ?, ?)",
+					item.question, item.answer, item.usedRAG ? 1 : 0, item.timestamp
+				);
+			}
+		});
+		await this.storage.delete("chat_history");
+	}
+
+	/**
+	 * Retención configurable: HISTORY_MAX_ENTRIES limita el número de
+	 * interacciones y HISTORY_RETENTION_DAYS su antigüedad. Sin configurar se
+	 * conserva todo.
+	 */
+	private applyRetention() {
+		const maxEntries = Number(this.env.HISTORY_MAX_ENTRIES);
+		if (maxEntries > 0) {
+			this.storage.sql.exec(
+				"DELETE FROM interactions WHERE id NOT IN (SELECT id FROM interactions ORDER BY id DESC LIMIT ?)", maxEntries
+			);
+		}
+
+		const retentionDays = Number(this.env.HISTORY_RETENTION_DAYS);
+		if (retentionDays > 0) {
+			const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+			this.storage.sql.exec("DELETE FROM interactions WHERE timestamp < ?", cutoff);
+		}
+
+		// Las fuentes, valoraciones y duraciones se van con su interacción
+		this.storage.sql.exec("DELETE FROM interaction_sources WHERE interaction_id NOT IN (SELECT id FROM interactions)");
+		this.storage.sql.exec("DELETE FROM feedback WHERE interaction_id NOT IN (SELECT id FROM interactions)");
+		this.storage.sql.exec("DELETE FROM interaction_timings WHERE interaction_id NOT IN (SELECT id FROM interactions)");
+	}
+
+	// En la copia de "analytics" el ID es el de la sesión de origen, el que se usa en POST /feedback
+	private interactionFromRow(row: Record<string, SqlStorageValue>): Interaction {
+		return {
+			id: (row.session_interaction_id as number | null) ?? row.id as number,
+			sessionId: (row.session_id as string | null) ?? undefined,
+			question: row.question as string,
+			answer: row.answer as string,
+			usedRAG: row.used_rag === 1,
+			route: (row.route as string | null) ?? undefined,
+			timestamp: row.timestamp as string
+		};
+	}
+
+	private interactionSourceFromRow(row: Record<string, SqlStorageValue>): InteractionSource {
+		return {
+			documentId: row.document_id as string,
+			title: (row.title as string | null) ?? undefined,
+			score: row.score as number,
+			inContext: row.in_context === 1,
+			cited: row.cited === 1
+		};
+	}
+
+	private feedbackFromRow(row: Record<string, SqlStorageValue>): Feedback {
+		return {
+			interactionId: (row.session_interaction_id as number | null) ?? row.interaction_id as number,
+			rating: row.rating as number,
+			comment: (row.comment as string | null) ?? undefined,
+			correctedAnswer: (row.corrected_answer as string | null) ?? undefined,
+			createdAt: row.created_at as string,
+			updatedAt: row.updated_at as string
+		};
+	}
+
+	// Filas con rated, average y satisfied agregados sobre las valoraciones
+	private satisfactionFromRow(row: Record<string, SqlStorageValue>): SatisfactionSummary {
+		const rated = row.rated as number;
+		return {
+			rated,
+			averageRating: rated > 0 ? Math.round((row.average as number) * 100) / 100 : null,
+			satisfaction: rated > 0 ? Math.round(((row.satisfied as number) / rated) * 100) : null
+		};
+	}
+
+	private documentFromRow(row: Record<string, SqlStorageValue>): DocumentRecord {
+		return {
+			id: row.id as string,
+			title: (row.title as string | null) ?? undefined,
+			source: (row.source as string | null) ?? undefined,
+			r2Key: (row.r2_key as string | null) ?? undefined,
+			contentType: (row.content_type as string | null) ?? undefined,
+			contentHash: row.content_hash as string,
+			chunkCount: row.chunk_count as number,
+			chunkSize: row.chunk_size as number,
+			chunkOverlap: row.chunk_overlap as number,
+			embeddingModel: (row.embedding_model as string | null) ?? undefined,
+			createdAt: row.created_at as string,
+			updatedAt: row.updated_at as string
+		};
+	}
+
+	private evalSummaryFromRow(row: Record<string, SqlStorageValue>): EvalRunSummary {
+		return {
+			id: row.id as string,
+			name: (row.name as string | null) ?? undefined,
+			createdAt: row.created_at as string,
+			itemCount: row.item_count as number,
+			k: row.k as number,
+			routingAccuracy: row.routing_accuracy as number | null,
+			recallAtK: row.recall_at_k as number | null,
+			mrr: row.mrr as number | null
+		};
+	}
+
+	private counterFromRow(row: Record<string, SqlStorageValue>): RateLimitCounter {
+		return {
+			clientId: row.client_id as string,
+			label: (row.label as string | null) ?? undefined,
+			tokens: row.tokens as number,
+			refilledAt: row.refilled_at as number,
+			day: row.day as string,
+			dayCount: row.day_count as number,
+			month: row.month as string,
+			monthCount: row.month_count as number,
+			blockedCount: row.blocked_count as number,
+			lastRequestAt: (row.last_request_at as string | null) ?? undefined
+		};
+	}
+
+	private usageFromRow(row: Record<string, SqlStorageValue>): UsageRow {
+		return {
+			day: row.day as string,
+			kind: row.kind as UsageRow['kind'],
+			route: row.route as string,
+			provider: row.provider as string,
+			model: row.model as string,
+			calls: row.calls as number,
+			inputs: row.inputs as number,
+			promptTokens: row.prompt_tokens as number,
+			completionTokens: row.completion_tokens as number
+		};
+	}
+
+	private cachedAnswerFromRow(row: Record<string, SqlStorageValue>, similarity: number, documentIds: string[]): CachedAnswer {
+		return {
+			question: row.question as string,
+			similarity,
+			answer: JSON.parse(row.answer as string),
+			documentIds,
+			createdAt: row.created_at as string,
+			hits: row.hits as number
+		};
+	}
+
+	private localVectorFromRow(row: Record<string, SqlStorageValue>): VectorizeVector {
+		return {
+			id: row.id as string,
+			values: Array.from(new Float32Array(row.embedding as ArrayBuffer)),
+			...(row.namespace !== null ? { namespace: row.namespace as string } : {}),
+			...(row.metadata !== null ? { metadata: JSON.parse(row.metadata as string) } : {})
+		};
+	}
+
+	private jobDocumentFromRow(row: Record<string, SqlStorageValue>): JobDocument {
+		return {
+			index: row.position as number,
+			id: row.document_id as string,
+			...(row.title !== null ? { title: row.title as string } : {}),
+			status: row.status as JobDocument['status'],
+			attempts: row.attempts as number,
+			...(row.chunks !== null ? { chunks: row.chunks as number } : {}),
+			...(row.error !== null ? { error: row.error as string } : {}),
+			...(row.status === 'pending' && row.retry_at !== null ? { retryAt: new Date(row.retry_at as number).toISOString() } : {})
+		};
+	}
+
+	private ingestionJob(id: string): IngestionJob | null {
+		const rows = this.storage.sql.exec("SELECT * FROM ingestion_jobs WHERE id = ?", id).toArray();
+		if (rows.length === 0) return null;
+		const job = rows[0];
+
+		const documents = this.storage.sql
+			.exec("SELECT position, document_id, title, status, attempts, chunks, error, retry_at FROM ingestion_job_items WHERE job_id = ? ORDER BY position", id)
+			.toArray()
+			.map(row => this.jobDocumentFromRow(row));
+		const count = (status: JobDocument['status']) => documents.filter(document => document.status === status).length;
+		const succeeded = count('succeeded');
+		const failed = count('failed');
+
+		return {
+			id,
+			status: job.status as JobStatus,
+			chunkSize: job.chunk_size as number,
+			chunkOverlap: job.chunk_overlap as number,
+			progress: {
+				total: documents.length,
+				processed: succeeded + failed,
+				succeeded,
+				failed,
+				pending: count('pending'),
+				percent: documents.length > 0 ? Math.round(((succeeded + failed) / documents.length) * 100) : 100
+			},
+			chunks: documents.reduce((sum, document) => sum + (document.chunks ?? 0), 0),
+			documents,
+			createdAt: job.created_at as string,
+			updatedAt: job.updated_at as string,
+			...(job.completed_at !== null ? { completedAt: job.completed_at as string } : {}),
+			...(job.error !== null ? { error: job.error as string } : {})
+		};
+	}
+
+	// Estado del job según sus documentos: sigue en marcha mientras quede alguno pendiente
+	private refreshJobStatus(id: string) {
+		const { pending, failed } = this.storage.sql.exec<{ pending: number; failed: number }>(
+			"SELECT COALESCE(SUM(status = 'pending'), 0) AS pending, COALESCE(SUM(status = 'failed'), 0) AS failed FROM ingestion_job_items WHERE job_id = ?", id
+		).one();
+		const now = new Date().toISOString();
+		if (pending > 0) {
+			this.storage.sql.exec("UPDATE ingestion_jobs SET status = 'running', updated_at = ? WHERE id = ?", now, id);
+		} else {
+			this.storage.sql.exec(
+				"UPDATE ingestion_jobs SET status = ?, updated_at = ?, completed_at = ? WHERE id = ?",
+				failed > 0 ? 'completed_with_errors' : 'completed', now, now, id
+			);
+		}
+	}
+
+	// Programa la alarma que procesa los jobs ya, salvo que haya una inmediata; una posterior es la espera de un reintento
+	private async scheduleIngestion() {
+		const alarm = await this.storage.getAlarm();
+		if (alarm === null || alarm > Date.now()) {
+			await this.storage.setAlarm(Date.now());
+		}
+	}
+
+	/**
+	 * Ingesta en segundo plano: cada alarma indexa un lote del job más antiguo
+	 * con documentos listos para intentarse y programa la siguiente. Un fallo
+	 * reintentable vuelve a quedar pendiente con backoff hasta MAX_JOB_ATTEMPTS;
+	 * si no se puede ni preparar el lote, el error queda en el job y cuenta
+	 * como intento de sus documentos, así ningún job se queda en `running`.
+	 * El contenido de los indexados se descarta porque solo los fallidos se
+	 * pueden reintentar.
+	 */
+	async alarm() {
+		const now = Date.now();
+		const jobs = this.storage.sql.exec(
+			`SELECT id, tenant_id, chunk_size, chunk_overlap FROM ingestion_jobs j
+			WHERE status IN ('queued', 'running') AND EXISTS (
+				SELECT 1 FROM ingestion_job_items i WHERE i.job_id = j.id AND i.status = 'pending' AND (i.retry_at IS NULL OR i.retry_at <= ?)
+			)
+			ORDER BY created_at LIMIT 1`,
+			now
+		).toArray();
+
+		if (jobs.length > 0) {
+			const job = jobs[0];
+			const jobId = job.id as string;
+			const chunkOptions = { chunkSize: job.chunk_size as number, chunkOverlap: job.chunk_overlap as number };
+
+			const rows = this.storage.sql.exec(
+				`SELECT position, document_id, title, source, content, attempts FROM ingestion_job_items
+				WHERE job_id = ? AND status = 'pending' AND (retry_at IS NULL OR retry_at <= ?) ORDER BY position LIMIT ?`,
+				jobId, now, MAX_BATCH_DOCUMENTS
+			).toArray();
+			const attempts = new Map(rows.map(row => [row.position as number, row.attempts as number]));
+			const pending: PendingJobDocument[] = rows.map(row => ({
+				index: row.position as number,
+				id: row.document_id as string,
+				content: row.content as string,
+				...(row.title !== null ? { title: row.title as string } : {}),
+				...(row.source !== null ? { source: row.source as string } : {})
+			}));
+
+			this.storage.sql.exec("UPDATE ingestion_jobs SET status = 'running', updated_at = ? WHERE id = ?", new Date().toISOString(), jobId);
+			let results: JobDocumentResult[];
+			let jobError: string | null = null;
+			try {
+				// Nadie espera la respuesta de una alarma: el uso se registra antes de dar el lote por terminado
+				const usage: Promise<unknown>[] = [];
+				const env = ingestionEnv(this.env, job.tenant_id as string, { waitUntil: promise => usage.push(promise) });
+				results = await runIngestionBatch(env, ingestionBatch(env, pending, chunkOptions), chunkOptions);
+				await Promise.all(usage);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				jobError = message;
+				results = pending.map(document => ({ index: document.index, status: 'failed', error: message, retryable: true }));
+			}
+
+			this.storage.transactionSync(() => {
+				for (const result of results) {
+					const attempt = (attempts.get(result.index) ?? 0) + 1;
+					const retry = result.status === 'failed' && result.retryable === true && attempt < MAX_JOB_ATTEMPTS;
+					this.storage.sql.exec(
+						`UPDATE ingestion_job_items SET status = ?, attempts = ?, chunks = ?, error = ?, retry_at = ?,
+							content = CASE WHEN ? = 'succeeded' THEN NULL ELSE content END
+						WHERE job_id = ? AND position = ?`,
+						retry ? 'pending' : result.status, attempt, result.chunks ?? null, result.error ?? null,
+						retry ? now + jobRetryDelay(attempt) : null, result.status, jobId, result.index
+					);
+				}
+				this.storage.sql.exec("UPDATE ingestion_jobs SET error = ? WHERE id = ?", jobError, jobId);
+			});
+			this.refreshJobStatus(jobId);
+		}
+
+		// Siguiente alarma: ya si hay documentos listos, o cuando toque el primer reintento
+		const { next } = this.storage.sql.exec<{ next: number | null }>(
+			`SELECT MIN(COALESCE(i.retry_at, 0)) AS next FROM ingestion_job_items i
+			JOIN ingestion_jobs j ON j.id = i.job_id
+			WHERE j.status IN ('queued', 'running') AND i.status = 'pending'`
+		).one();
+		if (next !== null) {
+			await this.storage.setAlarm(Math.max(next, Date.now()));
+		}
+	}
+
+	// Borra las entradas de la caché de respuestas que cumplen `where` junto con sus documentos
+	private deleteCacheEntries(where: string, ...bindings: SqlStorageValue[]): number {
+		this.storage.sql.exec(
+			`DELETE FROM answer_cache_documents WHERE entry_id IN (SELECT id FROM answer_cache WHERE ${where})`, ...bindings
+		);
+		return this.storage.sql.exec(`DELETE FROM answer_cache WHERE ${where}`, ...bindings).rowsWritten;
+	}
+
+	/**
+	 * Satisfacción de las interacciones valoradas que cumplen `where`, en
+	 * total, por ruta y por documento. Por documento solo cuentan los que
+	 * aportaron contexto a la respuesta.
+	 */
+	private feedbackStats(where: string, bindings: SqlStorageValue[]): FeedbackStats {
+		const aggregates = "COUNT(*) AS rated, AVG(feedback.rating) AS average, SUM(feedback.rating >= ?) AS satisfied";
+		const rated = "feedback JOIN interactions ON interactions.id = feedback.interaction_id";
+
+		const total = this.storage.sql.exec(`SELECT ${aggregates} FROM ${rated} ${where}`, SATISFIED_RATING, ...bindings).one();
+		// Las interacciones anteriores a v8 no tienen ruta: se deduce de used_rag
+		const byRoute = this.storage.sql.exec(
+			`SELECT COALESCE(route, CASE used_rag WHEN 1 THEN 'RAG' ELSE 'GENERAL' END) AS route, ${aggregates}
+			FROM ${rated} ${where} GROUP BY 1 ORDER BY rated DESC`,
+			SATISFIED_RATING, ...bindings
+		).toArray();
+		const bySource = this.storage.sql.exec(
+			`SELECT interaction_sources.document_id, MAX(interaction_sources.title) AS title, ${aggregates}
+			FROM ${rated}
+			JOIN interaction_sources ON interaction_sources.interaction_id = feedback.interaction_id AND interaction_sources.in_context = 1
+			${where}
+			GROUP BY interaction_sources.document_id ORDER BY average, rated DESC LIMIT 50`,
+			SATISFIED_RATING, ...bindings
+		).toArray();
+
+		return {
+			...this.satisfactionFromRow(total),
+			byRoute: byRoute.map(row => ({ route: row.route as string, ...this.satisfactionFromRow(row) })),
+			bySource: bySource.map(row => ({
+				documentId: row.document_id as string,
+				title: (row.title as string | null) ?? undefined,
+				...this.satisfactionFromRow(row)
+			}))
+		};
+	}
+
+	/**
+	 * Percentiles p50/p95 de cada etapa en las interacciones que cumplen
+	 * `where`; `total` es la petición completa hasta guardar la interacción.
+	 */
+	private latencyStats(where: string, bindings: SqlStorageValue[]): StageLatency[] {
+		const rows = this.storage.sql.exec<{ stage: string; duration_ms: number }>(
+			`SELECT interaction_timings.stage, interaction_timings.duration_ms
+			FROM interaction_timings JOIN interactions ON interactions.id = interaction_timings.interaction_id
+			${where}
+			ORDER BY interaction_timings.stage, interaction_timings.duration_ms`,
+			...bindings
+		).toArray();
+
+		const durations = new Map<string, number[]>();
+		for (const row of rows) {
+			const list = durations.get(row.stage);
+			if (list) list.push(row.duration_ms);
+			else durations.set(row.stage, [row.duration_ms]);
+		}
+		return [...durations].map(([stage, sorted]) => ({
+			stage,
+			count: sorted.length,
+			p50Ms: percentile(sorted, 50),
+			p95Ms: percentile(sorted, 95)
+		}));
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const path = url.pathname;
+
+		// CORS headers
+		const corsHeaders = {
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+			'Access-Control-Allow-Headers': 'Content-Type',
+		};
+
+		if (request.method === 'OPTIONS') {
+			return new Response(null, { headers: corsHeaders });
+		}
+
+		// Las rutas con IDs los decodifican con decodeURIComponent, que lanza URIError con escapes mal formados
+		if (!isDecodablePath(path)) {
+			return Response.json({ error: "Malformed URL path" }, { status: 400, headers: corsHeaders });
+		}
+
+		// Mantener historial de conversaciones: paginado por cursor, más reciente primero
+		if (path === "/history" && request.method === "GET") {
+			try {
+				const params = url.searchParams;
+				const limit = Math.min(Math.max(Number(params.get("limit")) || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+				const conditions: string[] = [];
+				const bindings: SqlStorageValue[] = [];
+
+				const cursor = params.get("cursor");
+				if (cursor) {
+					conditions.push("id < ?");
+					bindings.push(Number(cursor));
+				}
+				for (const [param, operator] of [["from", ">="], ["to", "<="]] as const) {
+					const value = params.get(param);
+					if (!value) continue;
+
+					const date = new Date(value);
+					if (isNaN(date.getTime())) {
+						return Response.json({
+							error: `Invalid '${param}' date`
+						}, { status: 400, headers: corsHeaders });
+					}
+					conditions.push(`timestamp ${operator} ?`);
+					bindings.push(date.toISOString());
+				}
+				const usedRAG = params.get("usedRAG");
+				if (usedRAG === "true" || usedRAG === "false") {
+					conditions.push("used_rag = ?");
+					bindings.push(usedRAG === "true" ? 1 : 0);
+				}
+				const search = params.get("q");
+				if (search) {
+					const pattern = `%${search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+					conditions.push("(question LIKE ? ESCAPE '\\' OR answer LIKE ? ESCAPE '\\')");
+					bindings.push(pattern, pattern);
+				}
+
+				const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+				// Se pide una fila de más para saber si hay otra página
+				const rows = this.storage.sql.exec(
+					`SELECT * FROM interactions ${where} ORDER BY id DESC LIMIT ?`, ...bindings, limit + 1
+				).toArray();
+				const page = rows.slice(0, limit).map(row => this.interactionFromRow(row));
+
+				return Response.json({
+					history: page,
+					nextCursor: rows.length > limit ? String(page[page.length - 1].id) : null
+				}, { headers: corsHeaders });
+			} catch (error) {
+				return Response.json({
+					error: "Failed to retrieve history",
+					details: error instanceof Error ? error.message : "Unknown error"
+				}, { status: 500, headers: corsHeaders });
+			}
+		}
+
+		// Guardar interacción en el historial
+		if (path === "/save" && request.method === "POST") {
+			try {
+				const { question, answer, usedRAG, route, sources = [], timings = {}, timestamp, sessionId, sessionInteractionId } =
+					await request.json() as Interaction & { sessionInteractionId?: number };
+
+				const id = this.storage.transactionSync(() => {
+					const { id } = this.storage.sql.exec<{ id: number }>(
+						`INSERT INTO interactions (question, answer, used_rag, route, timestamp, session_id, session_interaction_id)
+						VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+						question, answer, usedRAG ? 1 : 0, route ?? null, timestamp, sessionId ?? null, sessionInteractionId ?? null
+					).one();
+					for (const source of sources) {
+						this.storage.sql.exec(
+							`INSERT OR REPLACE INTO interaction_sources (interaction_id, document_id, title, score, in_context, cited)
+							VALUES (?, ?, ?, ?, ?, ?)`,
+							id, source.documentId, source.title ?? null, source.score, source.inContext ? 1 : 0, source.cited ? 1 : 0
+						);
+					}
+					for (const [stage, durationMs] of Object.entries(timings)) {
+						this.storage.sql.exec(
+							"INSERT OR REPLACE INTO interaction_timings (interaction_id, stage, duration_ms) VALUES (?, ?, ?)",
+							id, stage, durationMs
+						);
+					}
+					return id;
+				});
+				this.applyRetention();
+
+				const { total } = this.storage.sql.exec<{ total: number }>("SELECT COUNT(*) AS total FROM interactions").one();
+
+				return Response.json({
+					success: true,
+					id,
+					historyLength: total
+				}, { headers: corsHeaders });
+			} catch (error) {
+				return Response.json({
+					error: "Failed to save to history",
+					details: error instanceof Error ? error.message : "Unknown error"
+				}, { status: 500, headers: corsHeaders });
+			}
+		}
+
+		// Registro de documentos: listado paginado
+		if (path === "/documents" && request.method === "GET") {
+			const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 50, 1), 500);
+			const offset = Math.max(Number(url.searchParams.get("offset")) || 0, 0);
+			const rows = this.storage.sql.exec(
+				"SELECT * FROM documents ORDER BY updated_at DESC, id LIMIT ? OFFSET ?", limit, offset
+			).toArray();
+			const { total } = this.storage.sql.exec<{ total: number }>("SELECT COUNT(*) AS total FROM documents").one();
+
+			return Response.json({
+				documents: rows.map(row => this.documentFromRow(row)),
+				total,
+				limit,
+				offset
+			}, { headers: corsHeaders });
+		}
+
+		// Registro de documentos: búsqueda por lote de IDs
+		if (path === "/documents/lookup" && request.method === "POST") {
+			const { ids } = await request.json() as { ids: string[] };
+			const documents = (ids ?? []).flatMap(id =>
+				this.storage.sql.exec("SELECT * FROM documents WHERE id = ?", id).toArray().map(row => this.documentFromRow(row))
+			);
+			return Response.json({ documents }, { headers: corsHeaders });
+		}
+
+		// Registro de documentos: un documento concreto
+		if (path.startsWith("/documents/")) {
+			const id = decodeURIComponent(path.slice("/documents/".length));
+
+			if (request.method === "GET") {
+				const rows = this.storage.sql.exec("SELECT * FROM documents WHERE id = ?", id).toArray();
+				if (rows.length === 0) {
+					return Response.json({ error: "Document not found" }, { status: 404, headers: corsHeaders });
+				}
+				return Response.json({ document: this.documentFromRow(rows[0]) }, { headers: corsHeaders });
+			}
+
+			if (request.method === "PUT") {
+				const record = await request.json() as DocumentRecord;
+				this.storage.sql.exec(
+					`INSERT INTO documents (id, title, source, r2_key, content_type, content_hash, chunk_count, chunk_size, chunk_overlap, embedding_model, created_at, updated_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+					ON CONFLICT(id) DO UPDATE SET
+						title = excluded.title, source = excluded.source, r2_key = excluded.r2_key,
+						content_type = excluded.content_type, content_hash = excluded.content_hash,
+						chunk_count = excluded.chunk_count, chunk_size = excluded.chunk_size,
+						chunk_overlap = excluded.chunk_overlap, embedding_model = excluded.embedding_model,
+						updated_at = excluded.updated_at`,
+					id, record.title ?? null, record.source ?? null, record.r2Key ?? null, record.contentType ?? null,
+					record.contentHash, record.chunkCount, record.chunkSize, record.chunkOverlap, record.embeddingModel ?? null,
+					record.createdAt, record.updatedAt
+				);
+				return Response.json({ success: true }, { headers: corsHeaders });
+			}
+
+			if (request.method === "DELETE") {
+				const { rowsWritten } = this.storage.sql.exec("DELETE FROM documents WHERE id = ?", id);
+				return Response.json({ success: true, deleted: rowsWritten > 0 }, { headers: corsHeaders });
+			}
+		}
+
+		// Índice de palabras clave: búsqueda BM25
+		if (path === "/keyword/search" && request.method === "POST") {
+			const { query, limit = 10 } = await request.json() as { query: string; limit?: number };
+			const ftsQuery = toFtsQuery(query ?? "");
+			if (!ftsQuery) {
+				return Response.json({ matches: [] }, { headers: corsHeaders });
+			}
+
+			// bm25() es negativo y menor es mejor; se invierte para que mayor sea mejor
+			const rows = this.storage.sql.exec<{ chunk_id: string; metadata: string; rank: number }>(
+				`SELECT chunk_id, metadata, bm25(chunks_fts, 1.0, 0.5) AS rank
+				FROM chunks_fts WHERE chunks_fts MATCH ? ORDER BY rank LIMIT ?`,
+				ftsQuery, Math.min(Math.max(limit, 1), 100)
+			).toArray();
+
+			return Response.json({
+				matches: rows.map(row => ({
+					id: row.chunk_id,
+					score: -row.rank,
+					metadata: JSON.parse(row.metadata)
+				}))
+			}, { headers: corsHeaders });
+		}
+
+		// Índice de palabras clave: chunks de un documento
+		if (path.startsWith("/keyword/")) {
+			const documentId = decodeURIComponent(path.slice("/keyword/".length));
+
+			if (request.method === "PUT") {
+				const { chunks } = await request.json() as { chunks: KeywordChunk[] };
+				this.storage.transactionSync(() => {
+					this.storage.sql.exec("DELETE FROM chunks_fts WHERE document_id = ?", documentId);
+					for (const chunk of chunks) {
+						this.storage.sql.exec(
+							"INSERT INTO chunks_fts (content, title, chunk_id, document_id, metadata) VALUES (?, ?, ?, ?, ?)",
+							chunk.content, chunk.title ?? "", chunk.id, documentId, JSON.stringify(chunk.metadata)
+						);
+					}
+				});
+				return Response.json({ success: true, indexed: chunks.length }, { headers: corsHeaders });
+			}
+
+			if (request.method === "DELETE") {
+				this.storage.sql.exec("DELETE FROM chunks_fts WHERE document_id = ?", documentId);
+				return Response.json({ success: true }, { headers: corsHeaders });
+			}
+		}
+
+		// Evaluaciones: listado de ejecuciones (sin el informe completo), más reciente primero
+		if (path === "/evals" && request.method === "GET") {
+			const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 20, 1), 200);
+			const name = url.searchParams.get("name");
+			const rows = name
+				? this.storage.sql.exec("SELECT * FROM eval_runs WHERE name = ? ORDER BY created_at DESC LIMIT ?", name, limit).toArray()
+				: this.storage.sql.exec("SELECT * FROM eval_runs ORDER BY created_at DESC LIMIT ?", limit).toArray();
+
+			return Response.json({
+				runs: rows.map(row => this.evalSummaryFromRow(row))
+			}, { headers: corsHeaders });
+		}
+
+		// Evaluaciones: guardar una ejecución
+		if (path === "/evals" && request.method === "POST") {
+			const run = await request.json() as EvalRunRecord;
+			this.storage.sql.exec(
+				`INSERT INTO eval_runs (id, name, created_at, item_count, k, routing_accuracy, recall_at_k, mrr, config, report)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				run.id, run.name ?? null, run.createdAt, run.itemCount, run.k,
+				run.routingAccuracy, run.recallAtK, run.mrr, JSON.stringify(run.config), JSON.stringify(run.report)
+			);
+			return Response.json({ success: true, id: run.id }, { headers: corsHeaders });
+		}
+
+		// Evaluaciones: una ejecución con su informe completo
+		if (path.startsWith("/evals/") && request.method === "GET") {
+			const id = decodeURIComponent(path.slice("/evals/".length));
+			const rows = this.storage.sql.exec("SELECT * FROM eval_runs WHERE id = ?", id).toArray();
+			if (rows.length === 0) {
+				return Response.json({ error: "Eval run not found" }, { status: 404, headers: corsHeaders });
+			}
+			return Response.json({
+				run: {
+					...this.evalSummaryFromRow(rows[0]),
+					config: JSON.parse(rows[0].config as string),
+					report: JSON.parse(rows[0].report as string)
+				}
+			}, { headers: corsHeaders });
+		}
+
+		// Rate limiting: consumir una petición. El Durable Object serializa las llamadas, así que leer y escribir es atómico
+		if (path === "/rate-limits/consume" && request.method === "POST") {
+			const { clientId, label, limits, cost } = await request.json() as { clientId: string; label?: string; limits: RateLimits; cost: number };
+			const rows = this.storage.sql.exec("SELECT * FROM rate_limits WHERE client_id = ?", clientId).toArray();
+			const previous: RateLimitState | null = rows.length > 0 ? this.counterFromRow(rows[0]) : null;
+
+			const now = new Date();
+			const { state, decision } = consume(previous, limits, cost, now);
+			this.storage.sql.exec(
+				`INSERT OR REPLACE INTO rate_limits (client_id, label, tokens, refilled_at, day, day_count, month, month_count, blocked_count, last_request_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				clientId, label ?? null, state.tokens, state.refilledAt, state.day, state.dayCount,
+				state.month, state.monthCount, state.blockedCount, now.toISOString()
+			);
+			return Response.json({ decision }, { headers: corsHeaders });
+		}
+
+		// Rate limiting: contadores de todos los clientes, los más recientes primero
+		if (path === "/rate-limits" && request.method === "GET") {
+			const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 50, 1), 500);
+			const rows = this.storage.sql.exec("SELECT * FROM rate_limits ORDER BY last_request_at DESC LIMIT ?", limit).toArray();
+			return Response.json({
+				counters: rows.map(row => this.counterFromRow(row))
+			}, { headers: corsHeaders });
+		}
+
+		// Rate limiting: consultar o reiniciar los contadores de un cliente
+		if (path.startsWith("/rate-limits/")) {
+			const clientId = decodeURIComponent(path.slice("/rate-limits/".length));
+			if (request.method === "GET") {
+				const rows = this.storage.sql.exec("SELECT * FROM rate_limits WHERE client_id = ?", clientId).toArray();
+				if (rows.length === 0) {
+					return Response.json({ error: "No counters for this client" }, { status: 404, headers: corsHeaders });
+				}
+				return Response.json({ counter: this.counterFromRow(rows[0]) }, { headers: corsHeaders });
+			}
+			if (request.method === "DELETE") {
+				const deleted = this.storage.sql.exec("DELETE FROM rate_limits WHERE client_id = ?", clientId).rowsWritten > 0;
+				return Response.json({ deleted }, { headers: corsHeaders });
+			}
+		}
+
+		// Uso de modelos: sumar una llamada a su fila del día
+		if (path === "/usage" && request.method === "POST") {
+			const row = await request.json() as UsageRow;
+			this.storage.sql.exec(
+				`INSERT INTO usage_daily (day, kind, route, provider, model, calls, inputs, prompt_tokens, completion_tokens)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT (day, kind, route, provider, model) DO UPDATE SET
+					calls = calls + excluded.calls,
+					inputs = inputs + excluded.inputs,
+					prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+					completion_tokens = completion_tokens + excluded.completion_tokens`,
+				row.day, row.kind, row.route, row.provider, row.model, row.calls, row.inputs, row.promptTokens, row.completionTokens
+			);
+			return Response.json({ success: true }, { headers: corsHeaders });
+		}
+
+		// Uso de modelos: filas diarias entre from y to (YYYY-MM-DD, incluidos)
+		if (path === "/usage" && request.method === "GET") {
+			const rows = this.storage.sql.exec(
+				"SELECT * FROM usage_daily WHERE day >= ? AND day <= ? ORDER BY day",
+				url.searchParams.get("from") ?? "0000-00-00", url.searchParams.get("to") ?? "9999-99-99"
+			).toArray();
+			return Response.json({
+				rows: rows.map(row => this.usageFromRow(row))
+			}, { headers: corsHeaders });
+		}
+
+		// Caché de respuestas: la entrada vigente más parecida del mismo scope, si supera el umbral
+		if (path === "/answer-cache/lookup" && request.method === "POST") {
+			const { scope, vector, threshold } = await request.json() as { scope: string; vector: number[]; threshold: number };
+			const rows = this.storage.sql.exec(
+				"SELECT id, embedding FROM answer_cache WHERE scope = ? AND expires_at > ?", scope, Date.now()
+			).toArray();
+
+			let best: { id: number; similarity: number } | null = null;
+			for (const row of rows) {
+				const similarity = cosineSimilarity(vector, new Float32Array(row.embedding as ArrayBuffer));
+				if (similarity >= threshold && (!best || similarity > best.similarity)) {
+					best = { id: row.id as number, similarity };
+				}
+			}
+			if (!best) {
+				return Response.json({ entry: null }, { headers: corsHeaders });
+			}
+
+			this.storage.sql.exec("UPDATE answer_cache SET hits = hits + 1 WHERE id = ?", best.id);
+			const row = this.storage.sql.exec("SELECT * FROM answer_cache WHERE id = ?", best.id).one();
+			const documentIds = this.storage.sql
+				.exec<{ document_id: string }>("SELECT document_id FROM answer_cache_documents WHERE entry_id = ?", best.id)
+				.toArray()
+				.map(document => document.document_id);
+			return Response.json({
+				entry: this.cachedAnswerFromRow(row, best.similarity, documentIds)
+			}, { headers: corsHeaders });
+		}
+
+		// Caché de respuestas: guardar una entrada, descartando las caducadas y las que superan el máximo
+		if (path === "/answer-cache" && request.method === "POST") {
+			const entry = await request.json() as CacheEntryInput;
+			const now = Date.now();
+			this.storage.transactionSync(() => {
+				this.deleteCacheEntries("expires_at <= ?", now);
+				const { id } = this.storage.sql.exec<{ id: number }>(
+					`INSERT INTO answer_cache (scope, question, embedding, answer, used_rag, created_at, expires_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+					entry.scope, entry.question, new Float32Array(entry.vector).buffer, JSON.stringify(entry.answer),
+					entry.answer.usedRAG ? 1 : 0, new Date(now).toISOString(), now + entry.ttlSeconds * 1000
+				).one();
+				for (const documentId of new Set(entry.documentIds)) {
+					this.storage.sql.exec("INSERT INTO answer_cache_documents (entry_id, document_id) VALUES (?, ?)", id, documentId);
+				}
+				this.deleteCacheEntries("id NOT IN (SELECT id FROM answer_cache ORDER BY id DESC LIMIT ?)", entry.maxEntries);
+			});
+			return Response.json({ success: true }, { headers: corsHeaders });
+		}
+
+		// Caché de respuestas: descartar las entradas basadas en documentos que han cambiado
+		if (path === "/answer-cache/invalidate" && request.method === "POST") {
+			const { documentIds, ungrounded } = await request.json() as { documentIds: string[]; ungrounded: boolean };
+			const conditions: string[] = [];
+			if (documentIds.length > 0) {
+				conditions.push(`id IN (SELECT entry_id FROM answer_cache_documents WHERE document_id IN (${documentIds.map(() => "?").join(", ")}))`);
+			}
+			if (ungrounded) {
+				conditions.push("(used_rag = 1 AND id NOT IN (SELECT entry_id FROM answer_cache_documents))");
+			}
+			const deleted = conditions.length > 0
+				? this.storage.transactionSync(() => this.deleteCacheEntries(conditions.join(" OR "), ...documentIds))
+				: 0;
+			return Response.json({ deleted }, { headers: corsHeaders });
+		}
+
+		// Índice local: número de vectores, para describe()
+		if (path === "/local-vectors" && request.method === "GET") {
+			const { count } = this.storage.sql.exec<{ count: number }>("SELECT COUNT(*) AS count FROM local_vectors").one();
+			return Response.json({ vectorCount: count }, { headers: corsHeaders });
+		}
+
+		// Índice local: los topK vectores más parecidos (del namespace y que cumplen el filtro)
+		if (path === "/local-vectors/query" && request.method === "POST") {
+			const query = await request.json() as LocalVectorQuery;
+			const rows = query.namespace !== undefined
+				? this.storage.sql.exec("SELECT * FROM local_vectors WHERE namespace = ?", query.namespace).toArray()
+				: this.storage.sql.exec("SELECT * FROM local_vectors").toArray();
+
+			const matches = rows
+				.map(row => this.localVectorFromRow(row))
+				.filter(vector => !query.filter || matchesFilter(vector.metadata, query.filter))
+				.map(vector => ({ vector, score: cosineSimilarity(query.vector, vector.values) }))
+				.sort((a, b) => b.score - a.score)
+				.slice(0, query.topK)
+				.map(({ vector: { values, metadata, ...vector }, score }) => ({
+					...vector,
+					score,
+					...(query.returnValues ? { values } : {}),
+					...(query.returnMetadata && metadata ? { metadata } : {})
+				}));
+			return Response.json({ matches, count: matches.length }, { headers: corsHeaders });
+		}
+
+		if (path === "/local-vectors/upsert" && request.method === "POST") {
+			const { vectors } = await request.json() as { vectors: (VectorizeVector & { values: number[] })[] };
+			this.storage.transactionSync(() => {
+				for (const vector of vectors) {
+					this.storage.sql.exec(
+						`INSERT INTO local_vectors (id, namespace, embedding, metadata) VALUES (?, ?, ?, ?)
+						ON CONFLICT (id) DO UPDATE SET namespace = excluded.namespace, embedding = excluded.embedding, metadata = excluded.metadata`,
+						vector.id, vector.namespace ?? null, new Float32Array(vector.values).buffer,
+						vector.metadata ? JSON.stringify(vector.metadata) : null
+					);
+				}
+			});
+			return Response.json({ count: vectors.length }, { headers: corsHeaders });
+		}
+
+		if (path === "/local-vectors/get" && request.method === "POST") {
+			const { ids } = await request.json() as { ids: string[] };
+			const vectors = ids.flatMap(id =>
+				this.storage.sql.exec("SELECT * FROM local_vectors WHERE id = ?", id).toArray().map(row => this.localVectorFromRow(row))
+			);
+			return Response.json({ vectors }, { headers: corsHeaders });
+		}
+
+		if (path === "/local-vectors/delete" && request.method === "POST") {
+			const { ids } = await request.json() as { ids: string[] };
+			const count = this.storage.transactionSync(() =>
+				ids.reduce((deleted, id) => deleted + (this.storage.sql.exec("DELETE FROM local_vectors WHERE id = ?", id).rowsWritten > 0 ? 1 : 0), 0)
+			);
+			return Response.json({ count }, { headers: corsHeaders });
+		}
+
+		// Jobs de ingesta: se guardan con sus documentos pendientes y los procesa alarm()
+		if (path === "/jobs" && request.method === "POST") {
+			const input = await request.json() as JobInput;
+			const now = new Date().toISOString();
+			this.storage.transactionSync(() => {
+				this.storage.sql.exec(
+					`INSERT INTO ingestion_jobs (id, tenant_id, status, chunk_size, chunk_overlap, created_at, updated_at)
+					VALUES (?, ?, 'queued', ?, ?, ?, ?)`,
+					input.id, input.tenantId, input.chunkOptions.chunkSize, input.chunkOptions.chunkOverlap, now, now
+				);
+				input.documents.forEach((document, position) => {
+					this.storage.sql.exec(
+						`INSERT INTO ingestion_job_items (job_id, position, document_id, title, source, content, status)
+						VALUES (?, ?, ?, ?, ?, ?, 'pending')`,
+						input.id, position, document.id, document.title ?? null, document.source ?? null, document.content
+					);
+				});
+			});
+			await this.scheduleIngestion();
+			return Response.json({ job: this.ingestionJob(input.id) }, { headers: corsHeaders });
+		}
+
+		// Reintentar los documentos fallidos de un job
+		if (path.startsWith("/jobs/") && path.endsWith("/retry") && request.method === "POST") {
+			const id = decodeURIComponent(path.slice("/jobs/".length, -"/retry".length));
+			if (!this.ingestionJob(id)) {
+				return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+			}
+
+			const retried = this.storage.transactionSync(() => {
+				// rowsWritten también cuenta las escrituras en índices: se cuentan las filas devueltas
+				const count = this.storage.sql.exec(
+					"UPDATE ingestion_job_items SET status = 'pending' WHERE job_id = ? AND status = 'failed' RETURNING position", id
+				).toArray().length;
+				if (count > 0) {
+					this.storage.sql.exec(
+						"UPDATE ingestion_jobs SET status = 'queued', updated_at = ?, completed_at = NULL WHERE id = ?", new Date().toISOString(), id
+					);
+				}
+				return count;
+			});
+			if (retried > 0) await this.scheduleIngestion();
+			return Response.json({ job: this.ingestionJob(id), retried }, { headers: corsHeaders });
+		}
+
+		if (path.startsWith("/jobs/") && request.method === "GET") {
+			const job = this.ingestionJob(decodeURIComponent(path.slice("/jobs/".length)));
+			if (!job) {
+				return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+			}
+			return Response.json({ job }, { headers: corsHeaders });
+		}
+
+		// Valorar una interacción; una nueva valoración sustituye a la anterior. En "analytics" se indica la sesión y el ID de origen
+		if (path === "/feedback" && request.method === "POST") {
+			const { interactionId, sessionId, sessionInteractionId, rating, comment, correctedAnswer } =
+				await request.json() as FeedbackInput & { interactionId?: number; sessionId?: string; sessionInteractionId?: number };
+			const [interaction] = (sessionInteractionId === undefined
+				? this.storage.sql.exec<{ id: number }>("SELECT id FROM interactions WHERE id = ?", interactionId ?? null)
+				: this.storage.sql.exec<{ id: number }>(
+					"SELECT id FROM interactions WHERE session_id IS ? AND session_interaction_id = ?", sessionId ?? null, sessionInteractionId
+				)).toArray();
+			if (!interaction) {
+				return Response.json({ error: "Interaction not found" }, { status: 404, headers: corsHeaders });
+			}
+
+			const now = new Date().toISOString();
+			const row = this.storage.sql.exec(
+				`INSERT INTO feedback (interaction_id, rating, comment, corrected_answer, created_at, updated_at)
+				VALUES (?, ?, ?, ?, ?, ?)
+				ON CONFLICT (interaction_id) DO UPDATE SET
+					rating = excluded.rating,
+					comment = excluded.comment,
+					corrected_answer = excluded.corrected_answer,
+					updated_at = excluded.updated_at
+				RETURNING *`,
+				interaction.id, rating, comment ?? null, correctedAnswer ?? null, now, now
+			).one();
+			return Response.json({ feedback: this.feedbackFromRow(row) }, { headers: corsHeaders });
+		}
+
+		// Interacciones peor valoradas (rating <= maxRating) con las fuentes que se recuperaron
+		if (path === "/feedback/lowest" && request.method === "GET") {
+			const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 20, 1), 100);
+			const maxRating = Number(url.searchParams.get("maxRating")) || SATISFIED_RATING - 1;
+			const rows = this.storage.sql.exec(
+				`SELECT * FROM feedback JOIN interactions ON interactions.id = feedback.interaction_id
+				WHERE feedback.rating <= ?
+				ORDER BY feedback.rating, feedback.updated_at DESC
+				LIMIT ?`,
+				maxRating, limit
+			).toArray();
+
+			const interactions: RatedInteraction[] = rows.map(row => ({
+				...this.interactionFromRow(row),
+				sources: this.storage.sql
+					.exec("SELECT * FROM interaction_sources WHERE interaction_id = ? ORDER BY score DESC", row.id)
+					.toArray()
+					.map(source => this.interactionSourceFromRow(source)),
+				feedback: this.feedbackFromRow(row)
+			}));
+			return Response.json({ interactions }, { headers: corsHeaders });
+		}
+
+		// Estadísticas del Agent, opcionalmente entre dos fechas (from, to)
+		if (path === "/stats" && request.method === "GET") {
+			try {
+				const conditions: string[] = [];
+				const bindings: SqlStorageValue[] = [];
+				for (const [param, operator] of [["from", ">="], ["to", "<="]] as const) {
+					const value = url.searchParams.get(param);
+					if (!value) continue;
+					conditions.push(`timestamp ${operator} ?`);
+					bindings.push(value);
+				}
+				const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+				const { total, ragUsage } = this.storage.sql.exec<{ total: number; ragUsage: number | null }>(
+					`SELECT COUNT(*) AS total, SUM(used_rag) AS ragUsage FROM interactions ${where}`, ...bindings
+				).one();
+				const rag = ragUsage ?? 0;
+
+				return Response.json({
+					totalInteractions: total,
+					ragUsage: rag,
+					generalUsage: total - rag,
+					ragPercentage: total > 0 ? Math.round((rag / total) * 100) : 0,
+					feedback: this.feedbackStats(where, bindings),
+					latency: this.latencyStats(where, bindings)
+				}, { headers: corsHeaders });
+			} catch (error) {
+				return Response.json({
+					error: "Failed to get stats",
+					details: error instanceof Error ? error.message : "Unknown error"
+				}, { status: 500, headers: corsHeaders });
+			}
+		}
+
+		return Response.json({
+			error: "Not found"
+		}, { status: 404, headers: corsHeaders });
+	}
+}
@@ -0,0 +1,130 @@
+// Caché semántica de respuestas de /chat: una pregunta parecida a otra ya respondida reutiliza su respuesta
+import type { Env } from './types';
+
+// Instancia del Durable Object con las entradas (una por tenant, vía tenantEnv)
+export const ANSWER_CACHE_AGENT = "answer-cache";
+
+export const DEFAULT_ANSWER_CACHE_THRESHOLD = 0.95;
+export const DEFAULT_ANSWER_CACHE_TTL_SECONDS = 24 * 60 * 60;
+export const DEFAULT_ANSWER_CACHE_MAX_ENTRIES = 1000;
+
+// "use" consulta y guarda en la caché; "bypass" la ignora en ambos sentidos
+export type CacheMode = 'use' | 'bypass';
+
+export const CACHE_MODES: CacheMode[] = ['use', 'bypass'];
+
+export interface CacheEntryInput {
+	scope: string;
+	question: string;
+	vector: number[];
+	answer: Record<string, unknown>; // Cuerpo de la respuesta de /chat sin los campos propios de la petición
+	documentIds: string[]; // Documentos en los que se basa: al actualizarlos o borrarlos la entrada se descarta
+	ttlSeconds: number;
+	maxEntries: number;
+}
+
+export interface CachedAnswer {
+	question: string; // La pregunta que generó la respuesta
+	similarity: number;
+	answer: Record<string, unknown>;
+	documentIds: string[];
+	createdAt: string;
+	hits: number;
+}
+
+export function isCacheMode(value: unknown): value is CacheMode {
+	return CACHE_MODES.includes(value as CacheMode);
+}
+
+function envNumber(value: string | undefined, fallback: number): number {
+	const parsed = value ? Number(value) : NaN;
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Similitud coseno mínima para reutilizar una respuesta (ANSWER_CACHE_THRESHOLD)
+export function answerCacheThreshold(env: Env): number {
+	return Math.min(envNumber(env.ANSWER_CACHE_THRESHOLD, DEFAULT_ANSWER_CACHE_THRESHOLD), 1);
+}
+
+// Vida de una entrada (ANSWER_CACHE_TTL_SECONDS); 0 desactiva la caché
+export function answerCacheTtl(env: Env): number {
+	return Math.floor(envNumber(env.ANSWER_CACHE_TTL_SECONDS, DEFAULT_ANSWER_CACHE_TTL_SECONDS));
+}
+
+export function answerCacheMaxEntries(env: Env): number {
+	return Math.floor(envNumber(env.ANSWER_CACHE_MAX_ENTRIES, DEFAULT_ANSWER_CACHE_MAX_ENTRIES)) || DEFAULT_ANSWER_CACHE_MAX_ENTRIES;
+}
+
+/**
+ * Clave de las opciones que cambian la respuesta: solo se reutilizan
+ * respuestas dadas con el mismo idioma, la misma recuperación y el mismo
+ * modelo de embeddings (vectores de otro modelo no son comparables).
+ */
+export function cacheScope(options: Record<string, unknown>): string {
+	const defined = Object.entries(options)
+		.filter(([, value]) => value !== undefined)
+		.sort(([a], [b]) => a.localeCompare(b));
+	return JSON.stringify(Object.fromEntries(defined));
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	if (a.length !== b.length) return 0;
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class AnswerCache {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(ANSWER_CACHE_AGENT));
+	}
+
+	// La entrada vigente más parecida con similitud >= threshold, o null
+	async lookup(scope: string, vector: number[], threshold: number): Promise<CachedAnswer | null> {
+		const { entry } = await this.call<{ entry: CachedAnswer | null }>("/answer-cache/lookup", {
+			method: "POST",
+			body: JSON.stringify({ scope, vector, threshold })
+		});
+		return entry;
+	}
+
+	async store(entry: CacheEntryInput): Promise<void> {
+		await this.call("/answer-cache", {
+			method: "POST",
+			body: JSON.stringify(entry)
+		});
+	}
+
+	/**
+	 * Descarta las entradas basadas en alguno de los documentos. Con
+	 * `ungrounded` también las respuestas RAG que no encontraron contexto,
+	 * que un documento nuevo puede dejar obsoletas.
+	 */
+	async invalidate(documentIds: string[], options: { ungrounded?: boolean } = {}): Promise<number> {
+		if (documentIds.length === 0 && !options.ungrounded) return 0;
+		const { deleted } = await this.call<{ deleted: number }>("/answer-cache/invalidate", {
+			method: "POST",
+			body: JSON.stringify({ documentIds, ungrounded: options.ungrounded ?? false })
+		});
+		return deleted;
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Answer cache error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
@@ -0,0 +1,72 @@
+// Base de los endpoints OpenAPI: todas las rutas responden los errores con el mismo formato
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { logEvent } from './tracing';
+import type { AppContext } from './types';
+
+// Error de un campo de la petición; `path` empieza por body, query o params (p. ej. "body.question")
+export interface FieldError {
+	path: string;
+	message: string;
+}
+
+/**
+ * Error con estado HTTP que un endpoint lanza para responder con el formato
+ * común `{ error, details? }`. Los campos de `extra` se añaden al cuerpo
+ * (p. ej. retryAfterSeconds en un 429).
+ */
+export class ApiError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+		readonly details?: unknown,
+		readonly extra: Record<string, unknown> = {}
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+export const ErrorResponse = z.object({
+	error: z.string(),
+	details: z.unknown().optional(),
+	errors: z.array(z.object({ path: z.string(), message: z.string() })).optional()
+		.describe("Field-level validation errors (400 only)")
+});
+
+// Respuesta de error para el `responses` de un schema
+export function errorResponse(description: string) {
+	return {
+		description,
+		content: { "application/json": { schema: ErrorResponse } }
+	};
+}
+
+export function errorJson(status: number, error: string, details?: unknown, extra: Record<string, unknown> = {}): Response {
+	return Response.json({ error, ...(details !== undefined ? { details } : {}), ...extra }, { status });
+}
+
+export abstract class ApiRoute extends OpenAPIRoute {
+	// Mensaje de los 500 de la ruta; el error original va en `details`
+	protected failureMessage = "Request failed";
+
+	handleValidationError(issues: z.ZodIssue[]): Response {
+		const errors: FieldError[] = issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+		return errorJson(400, "Invalid request", undefined, { errors });
+	}
+
+	async execute(...args: Parameters<OpenAPIRoute['execute']>): Promise<Response> {
+		try {
+			return await super.execute(...args);
+		} catch (error) {
+			if (error instanceof ApiError) {
+				return errorJson(error.status, error.message, error.details, error.extra);
+			}
+			const details = error instanceof Error ? error.message : "Unknown error";
+			// Con Hono el primer argumento es el contexto de la petición
+			const [c] = args as [AppContext];
+			logEvent('error', this.failureMessage, { requestId: c.get("env")?.TRACE?.requestId, error: details, stack: error instanceof Error ? error.stack : undefined });
+			return errorJson(500, this.failureMessage, details);
+		}
+	}
+}
@@ -0,0 +1,181 @@
+// Autenticación con API keys o JWT (HS256); cada credencial pertenece a un tenant y tiene un scope
+import { contentHash } from './indexing';
+import type { RateLimits } from './rate-limit';
+import { DEFAULT_TENANT, resolveTenant, type Tenant } from './tenants';
+import type { Env } from './types';
+
+// "read" consulta (chat, búsqueda, documentos, historial); "ingest" además inserta, actualiza y borra documentos;
+// "admin" además gestiona los contadores de rate limiting del tenant
+export type Scope = 'read' | 'ingest' | 'admin';
+
+// Ordenados de menor a mayor: cada scope incluye los anteriores
+export const SCOPES: Scope[] = ['read', 'ingest', 'admin'];
+
+export interface ApiKeyRecord {
+	tenant: string;
+	scope: Scope;
+	name?: string; // Para identificar la key en los logs
+	limits?: Partial<RateLimits>; // Sustituyen a RATE_LIMIT_* y QUOTA_* para esta key
+}
+
+export interface AuthContext {
+	tenant: Tenant;
+	scope: Scope;
+	method: 'api-key' | 'jwt' | 'disabled';
+	keyName?: string;
+	clientId: string; // Cliente al que se cargan el rate limit y las cuotas
+	limits?: Partial<RateLimits>;
+}
+
+export class AuthError extends Error {
+	constructor(message: string, readonly status: 401 | 403) {
+		super(message);
+		this.name = "AuthError";
+	}
+}
+
+export function isScope(value: unknown): value is Scope {
+	return SCOPES.includes(value as Scope);
+}
+
+export function hasScope(granted: Scope, required: Scope): boolean {
+	return SCOPES.indexOf(granted) >= SCOPES.indexOf(required);
+}
+
+// Rutas que modifican la base de conocimientos o administran el tenant
+export function requiredScope(method: string, path: string): Scope {
+	if (path.startsWith("/admin/")) return 'admin';
+	if (path === "/insert" || path === "/upload" || path === "/jobs" || path.startsWith("/jobs/")) return 'ingest';
+	if (path.startsWith("/documents/") && (method === "PUT" || method === "DELETE")) return 'ingest';
+	return 'read';
+}
+
+// API_KEYS se parsea una vez por isolate
+let parsedKeys: { raw: string; keys: Record<string, ApiKeyRecord> } | null = null;
+
+function apiKeys(env: Env): Record<string, ApiKeyRecord> {
+	const raw = env.API_KEYS;
+	if (!raw) return {};
+	if (parsedKeys?.raw !== raw) {
+		try {
+			parsedKeys = { raw, keys: JSON.parse(raw) };
+		} catch (error) {
+			console.error("Invalid API_KEYS, no API key will be accepted:", error);
+			parsedKeys = { raw, keys: {} };
+		}
+	}
+	return parsedKeys.keys;
+}
+
+// `Authorization: Bearer <key o JWT>` o `X-API-Key: <key>`
+function credentialFrom(request: Request): string | null {
+	const authorization = request.headers.get("Authorization");
+	if (authorization?.startsWith("Bearer ")) return authorization.slice("Bearer ".length).trim();
+	return request.headers.get("X-API-Key");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+	try {
+		return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+	} catch {
+		throw new AuthError("Malformed token", 401);
+	}
+}
+
+function decodeJson(part: string): Record<string, unknown> {
+	try {
+		return JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+	} catch {
+		throw new AuthError("Malformed token", 401);
+	}
+}
+
+/**
+ * Verifica un JWT firmado con HS256 y JWT_SECRET. El tenant va en el claim
+ * `tenant` y el scope en `scope` ("read" por defecto); `exp`, `nbf` y, si se
+ * configuran, `iss` y `aud` se comprueban.
+ */
+async function verifyJwt(env: Env, token: string): Promise<{ tenant: string; scope: Scope; subject?: string }> {
+	const [header, payload, signature] = token.split(".");
+	if (decodeJson(header).alg !== "HS256") {
+		throw new AuthError("Unsupported token algorithm (expected HS256)", 401);
+	}
+
+	const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(env.JWT_SECRET), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+	const valid = await crypto.subtle.verify("HMAC", key, base64UrlDecode(signature), new TextEncoder().encode(`${header}.${payload}`));
+	if (!valid) {
+		throw new AuthError("Invalid token signature", 401);
+	}
+
+	const claims = decodeJson(payload);
+	const now = Math.floor(Date.now() / 1000);
+	if (typeof claims.exp === 'number' && claims.exp <= now) {
+		throw new AuthError("Token has expired", 401);
+	}
+	if (typeof claims.nbf === 'number' && claims.nbf > now) {
+		throw new AuthError("Token is not valid yet", 401);
+	}
+	if (env.JWT_ISSUER && claims.iss !== env.JWT_ISSUER) {
+		throw new AuthError("Invalid token issuer", 401);
+	}
+	if (env.JWT_AUDIENCE && !(Array.isArray(claims.aud) ? claims.aud.includes(env.JWT_AUDIENCE) : claims.aud === env.JWT_AUDIENCE)) {
+		throw new AuthError("Invalid token audience", 401);
+	}
+	if (typeof claims.tenant !== 'string') {
+		throw new AuthError("Token has no tenant claim", 401);
+	}
+
+	const scope = claims.scope ?? 'read';
+	if (!isScope(scope)) {
+		throw new AuthError(`Invalid token scope (expected ${SCOPES.join(", ")})`, 401);
+	}
+	return { tenant: claims.tenant, scope, subject: typeof claims.sub === 'string' ? claims.sub : undefined };
+}
+
+/**
+ * Identifica al llamante. Las API keys se guardan en API_KEYS como hash
+ * SHA-256 (hex), así el secret no contiene las keys en claro. Con
+ * AUTH_DISABLED="true" (solo desarrollo) todo va al tenant por defecto con
+ * scope "admin". El rate limit se aplica por API key, por usuario (`sub`)
+ * del JWT o, si no hay ninguno, por IP.
+ */
+export async function authenticate(request: Request, env: Env): Promise<AuthContext> {
+	const ipClient = `ip:${request.headers.get("CF-Connecting-IP") ?? "unknown"}`;
+	if (env.AUTH_DISABLED === "true") {
+		return {
+			tenant: resolveTenant(env, DEFAULT_TENANT) ?? { id: DEFAULT_TENANT, corsOrigins: ["*"] },
+			scope: 'admin',
+			method: 'disabled',
+			clientId: ipClient
+		};
+	}
+
+	const credential = credentialFrom(request);
+	if (!credential) {
+		throw new AuthError("Missing credentials (use 'Authorization: Bearer <key>' or 'X-API-Key')", 401);
+	}
+
+	let identity: Omit<AuthContext, 'tenant'> & { tenant: string };
+	if (credential.split(".").length === 3) {
+		if (!env.JWT_SECRET) {
+			throw new AuthError("JWT authentication is not configured", 401);
+		}
+		const { tenant, scope, subject } = await verifyJwt(env, credential);
+		identity = { tenant, scope, method: 'jwt', clientId: subject ? `jwt:${subject}` : ipClient };
+	} else {
+		const hash = await contentHash(credential);
+		const record = apiKeys(env)[hash];
+		if (!record || !isScope(record.scope)) {
+			throw new AuthError("Invalid API key", 401);
+		}
+		// El prefijo del hash identifica la key sin exponerla
+		identity = { tenant: record.tenant, scope: record.scope, method: 'api-key', keyName: record.name, clientId: `key:${hash.slice(0, 16)}`, limits: record.limits };
+	}
+
+	const tenant = resolveTenant(env, identity.tenant);
+	if (!tenant) {
+		throw new AuthError(`Unknown tenant "${identity.tenant}"`, 403);
+	}
+	return { ...identity, tenant };
+}
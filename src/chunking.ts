@@ -0,0 +1,193 @@
+// Chunking de documentos largos antes de generar embeddings
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 150;
+// El texto del chunk viaja en los metadatos del vector (límite de 10 KiB en Vectorize): 2000 caracteres caben aunque ocupen 4 bytes cada uno
+export const MAX_CHUNK_SIZE = 2000;
+
+export interface ChunkOptions {
+	chunkSize?: number; // Tamaño máximo de cada chunk en caracteres
+	chunkOverlap?: number; // Caracteres compartidos entre chunks consecutivos de una misma sección
+}
+
+export interface DocumentChunk {
+	text: string;
+	index: number;
+	start: number; // Offset (inclusive) dentro del contenido original
+	end: number; // Offset (exclusive) dentro del contenido original
+	heading?: string;
+}
+
+interface Span {
+	start: number;
+	end: number;
+}
+
+interface Section extends Span {
+	heading?: string;
+}
+
+const HEADING_PATTERN = /^#{1,6}[ \t]+(.+)$/gm;
+const PARAGRAPH_BREAK = /\r?\n[ \t]*\r?\n/g;
+const SENTENCE_END = /[.!?…][)"'»]?\s+/g;
+
+export function resolveChunkOptions(options: ChunkOptions = {}): Required<ChunkOptions> {
+	const chunkSize = Math.min(MAX_CHUNK_SIZE, Math.max(100, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE)));
+	const chunkOverlap = Math.max(0, Math.floor(options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP));
+
+	if (chunkOverlap >= chunkSize) {
+		throw new Error(`chunkOverlap (${chunkOverlap}) must be smaller than chunkSize (${chunkSize})`);
+	}
+
+	return { chunkSize, chunkOverlap };
+}
+
+/**
+ * Divide un documento en chunks respetando encabezados Markdown y párrafos.
+ * Los chunks nunca cruzan un encabezado; dentro de una sección se empaquetan
+ * párrafos hasta `chunkSize` y cada chunk nuevo retoma los últimos
+ * `chunkOverlap` caracteres del anterior.
+ */
+export function chunkDocument(content: string, options: ChunkOptions = {}): DocumentChunk[] {
+	const { chunkSize, chunkOverlap } = resolveChunkOptions(options);
+	const chunks: DocumentChunk[] = [];
+
+	for (const section of splitSections(content)) {
+		// Los párrafos largos se parten dejando espacio para el overlap del chunk siguiente
+		const segments = splitParagraphs(content, section).flatMap((paragraph) =>
+			splitOversized(content, paragraph, chunkSize - chunkOverlap),
+		);
+
+		let current: Span | null = null;
+		for (const segment of segments) {
+			if (!current) {
+				current = { ...segment };
+				continue;
+			}
+
+			if (segment.end - current.start <= chunkSize) {
+				current.end = segment.end;
+				continue;
+			}
+
+			pushChunk(chunks, content, current, section.heading);
+
+			// El overlap solo se aplica si el chunk resultante sigue cabiendo en chunkSize
+			const overlapStart = snapToWordStart(content, Math.max(current.start, current.end - chunkOverlap), current.end);
+			const start = chunkOverlap > 0 && segment.end - overlapStart <= chunkSize ? overlapStart : segment.start;
+			current = { start, end: segment.end };
+		}
+
+		if (current) {
+			pushChunk(chunks, content, current, section.heading);
+		}
+	}
+
+	return chunks;
+}
+
+function pushChunk(chunks: DocumentChunk[], content: string, span: Span, heading?: string) {
+	const text = content.slice(span.start, span.end);
+	if (text.trim().length === 0) return;
+
+	chunks.push({
+		text,
+		index: chunks.length,
+		start: span.start,
+		end: span.end,
+		heading,
+	});
+}
+
+function splitSections(content: string): Section[] {
+	const sections: Section[] = [];
+	let lastStart = 0;
+	let lastHeading: string | undefined;
+
+	for (const match of content.matchAll(HEADING_PATTERN)) {
+		const index = match.index ?? 0;
+		if (index > lastStart) {
+			sections.push({ start: lastStart, end: index, heading: lastHeading });
+		}
+		lastStart = index;
+		lastHeading = match[1].trim();
+	}
+
+	sections.push({ start: lastStart, end: content.length, heading: lastHeading });
+	return sections;
+}
+
+function splitParagraphs(content: string, section: Span): Span[] {
+	const paragraphs: Span[] = [];
+	const text = content.slice(section.start, section.end);
+	let lastStart = 0;
+
+	for (const match of text.matchAll(PARAGRAPH_BREAK)) {
+		const index = match.index ?? 0;
+		addTrimmed(paragraphs, content, section.start + lastStart, section.start + index);
+		lastStart = index + match[0].length;
+	}
+
+	addTrimmed(paragraphs, content, section.start + lastStart, section.end);
+	return paragraphs;
+}
+
+// Parte los párrafos más largos que maxLength por oraciones y, si aún no cabe, por palabras
+function splitOversized(content: string, span: Span, maxLength: number): Span[] {
+	if (span.end - span.start <= maxLength) return [span];
+
+	const pieces: Span[] = [];
+	const text = content.slice(span.start, span.end);
+	let pieceStart = 0;
+	let lastBoundary = 0;
+
+	const boundaries = [...text.matchAll(SENTENCE_END)].map((match) => (match.index ?? 0) + match[0].length);
+	boundaries.push(text.length);
+
+	for (const boundary of boundaries) {
+		if (boundary - pieceStart > maxLength && lastBoundary > pieceStart) {
+			addTrimmed(pieces, content, span.start + pieceStart, span.start + lastBoundary);
+			pieceStart = lastBoundary;
+		}
+		lastBoundary = boundary;
+	}
+	addTrimmed(pieces, content, span.start + pieceStart, span.end);
+
+	return pieces.flatMap((piece) => (piece.end - piece.start <= maxLength ? [piece] : hardSplit(content, piece, maxLength)));
+}
+
+function hardSplit(content: string, span: Span, chunkSize: number): Span[] {
+	const pieces: Span[] = [];
+	let start = span.start;
+
+	while (span.end - start > chunkSize) {
+		let end = start + chunkSize;
+		const lastSpace = content.lastIndexOf(' ', end);
+		if (lastSpace > start + chunkSize / 2) {
+			end = lastSpace;
+		}
+		addTrimmed(pieces, content, start, end);
+		start = end;
+	}
+	addTrimmed(pieces, content, start, span.end);
+
+	return pieces;
+}
+
+function addTrimmed(spans: Span[], content: string, start: number, end: number) {
+	while (start < end && /\s/.test(content[start])) start++;
+	while (end > start && /\s/.test(content[end - 1])) end--;
+	if (end > start) {
+		spans.push({ start, end });
+	}
+}
+
+// Avanza hasta el inicio de la siguiente palabra para no cortar el overlap a mitad de palabra
+function snapToWordStart(content: string, index: number, limit: number): number {
+	if (index === 0 || /\s/.test(content[index - 1])) return index;
+
+	let cursor = index;
+	while (cursor < limit && !/\s/.test(content[cursor])) cursor++;
+	while (cursor < limit && /\s/.test(content[cursor])) cursor++;
+	return cursor < limit ? cursor : index;
+}
@@ -0,0 +1,140 @@
+// Citas en línea: el contexto va numerado y los marcadores [n] de la respuesta se resuelven contra las fuentes
+import type { SelectedPassage } from './relevance';
+import { metadataNumber, metadataString, parentIdOf, type GroupedSource } from './sources';
+
+export interface ContextPassage {
+	marker: number;
+	chunkId: string;
+	sourceId: string; // Documento de origen (parentId)
+	title?: string;
+	content: string;
+	start?: number;
+	end?: number;
+}
+
+export interface Citation {
+	marker: number;
+	id: string; // Documento citado
+	chunkId: string;
+	title?: string;
+	quote: string; // Frase del pasaje que respalda la afirmación
+	start?: number; // Posición del chunk en el documento
+	end?: number;
+}
+
+export interface CitationResult {
+	answer: string; // Respuesta sin los marcadores que no apuntan a ningún pasaje
+	citations: Citation[];
+	invalidMarkers: number[];
+}
+
+// Acepta [1], [1, 2] y [1][2]
+const MARKER_PATTERN = /(\s*)\[(\d+(?:\s*,\s*\d+)*)\]/g;
+const MAX_QUOTE_LENGTH = 300;
+// Números por encima de los pasajes + este margen ([2024], [404]) no se leen como citas sino como texto de la respuesta
+const MARKER_MARGIN = 3;
+
+export function buildPassages(selected: SelectedPassage[]): ContextPassage[] {
+	return selected.map(({ match, content }, index) => ({
+		marker: index + 1,
+		chunkId: match.id,
+		sourceId: parentIdOf(match),
+		title: metadataString(match, 'title'),
+		content,
+		start: metadataNumber(match, 'charStart'),
+		end: metadataNumber(match, 'charEnd')
+	}));
+}
+
+export function formatPassages(passages: ContextPassage[]): string {
+	return passages
+		.map(passage => `[${passage.marker}]${passage.title ? ` ${passage.title}` : ""}\n${passage.content}`)
+		.join('\n\n');
+}
+
+function words(text: string): Set<string> {
+	const normalized = text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, "");
+	return new Set(normalized.match(/[\p{L}\p{N}]{4,}/gu) ?? []);
+}
+
+// Frase de la respuesta que termina en el marcador
+function claimBefore(answer: string, index: number): string {
+	const before = answer.substring(0, index);
+	const start = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n'), before.lastIndexOf('? '), before.lastIndexOf('! '));
+	return before.substring(start + 1);
+}
+
+/**
+ * Elige la frase del pasaje que más palabras comparte con la afirmación
+ * citada. Sin coincidencias se usa el comienzo del pasaje.
+ */
+function quoteFor(passage: ContextPassage, claim: string): string {
+	const claimWords = words(claim);
+	const sentences = passage.content.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+
+	let best = sentences[0] ?? passage.content;
+	let bestOverlap = 0;
+	for (const sentence of sentences) {
+		let overlap = 0;
+		for (const word of words(sentence)) {
+			if (claimWords.has(word)) overlap++;
+		}
+		if (overlap > bestOverlap) {
+			best = sentence;
+			bestOverlap = overlap;
+		}
+	}
+
+	return best.length > MAX_QUOTE_LENGTH ? best.substring(0, MAX_QUOTE_LENGTH) + "..." : best;
+}
+
+/**
+ * Resuelve los marcadores de la respuesta: los que apuntan a un pasaje se
+ * convierten en citas (una por pasaje, en orden de aparición) y los demás
+ * se eliminan del texto. Un grupo con algún número fuera del rango
+ * plausible de pasajes no es una cita y se deja tal cual.
+ */
+export function resolveCitations(answer: string, passages: ContextPassage[]): CitationResult {
+	const byMarker = new Map(passages.map(passage => [passage.marker, passage]));
+	const citations = new Map<number, Citation>();
+	const invalid = new Set<number>();
+
+	const cleaned = answer.replace(MARKER_PATTERN, (full, space: string, list: string, offset: number) => {
+		const markers = list.split(',').map(marker => Number(marker.trim()));
+		if (markers.some(marker => marker < 1 || marker > passages.length + MARKER_MARGIN)) return full;
+
+		const valid = markers.filter(marker => byMarker.has(marker));
+		markers.filter(marker => !byMarker.has(marker)).forEach(marker => invalid.add(marker));
+
+		for (const marker of valid) {
+			if (citations.has(marker)) continue;
+			const passage = byMarker.get(marker)!;
+			citations.set(marker, {
+				marker,
+				id: passage.sourceId,
+				chunkId: passage.chunkId,
+				title: passage.title,
+				quote: quoteFor(passage, claimBefore(answer, offset)),
+				start: passage.start,
+				end: passage.end
+			});
+		}
+
+		if (valid.length === markers.length) return full;
+		return valid.length > 0 ? `${space}[${valid.join(", ")}]` : "";
+	});
+
+	return {
+		answer: cleaned,
+		citations: [...citations.values()],
+		invalidMarkers: [...invalid].sort((a, b) => a - b)
+	};
+}
+
+// Marca qué fuentes recuperadas cita la respuesta
+export function markCitedSources(sources: GroupedSource[], citations: Citation[]): void {
+	const cited = new Set(citations.map(citation => citation.id));
+	for (const source of sources) {
+		source.cited = cited.has(source.id);
+	}
+}
@@ -0,0 +1,220 @@
+// Proveedores de embeddings intercambiables (Workers AI, Azure OpenAI o el embedder local)
+import { HashEmbeddingProvider } from './local';
+import { estimateTokens } from './relevance';
+import { traced } from './tracing';
+import type { EmbeddingResponse, Env } from './types';
+
+// Multilingüe: las preguntas llegan en español, inglés o portugués
+export const DEFAULT_WORKERS_AI_EMBEDDING_MODEL = "@cf/baai/bge-m3";
+
+// Textos por llamada: Workers AI acepta hasta 100; Azure OpenAI 2048 entradas y 300k tokens por petición
+const WORKERS_AI_MAX_BATCH_SIZE = 100;
+const AZURE_OPENAI_MAX_BATCH_SIZE = 2048;
+const AZURE_OPENAI_MAX_BATCH_TOKENS = 300_000;
+
+// Dimensiones conocidas; los modelos que no estén aquí se validan con su primera salida
+const KNOWN_DIMENSIONS: Record<string, number> = {
+	"@cf/baai/bge-small-en-v1.5": 384,
+	"@cf/baai/bge-base-en-v1.5": 768,
+	"@cf/baai/bge-large-en-v1.5": 1024,
+	"@cf/baai/bge-m3": 1024,
+	"text-embedding-ada-002": 1536,
+	"text-embedding-3-small": 1536,
+	"text-embedding-3-large": 3072
+};
+
+export interface EmbeddingProvider {
+	readonly name: string;
+	readonly model: string;
+	readonly dimensions?: number;
+	readonly maxBatchSize: number; // Textos por llamada a embed()
+	readonly maxBatchTokens?: number; // Tokens estimados por llamada, si el proveedor los limita
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
+	readonly name = "workers-ai";
+	readonly dimensions?: number;
+	readonly maxBatchSize = WORKERS_AI_MAX_BATCH_SIZE;
+
+	constructor(private ai: Ai, readonly model: string) {
+		this.dimensions = KNOWN_DIMENSIONS[model];
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		// El modelo es configurable; se tipa como el de referencia porque todos aceptan { text: string[] }
+		const response = await this.ai.run(
+			this.model as typeof DEFAULT_WORKERS_AI_EMBEDDING_MODEL,
+			{ text: texts }
+		) as EmbeddingResponse;
+
+		if (!response.data || response.data.length !== texts.length) {
+			throw new Error(`Workers AI model ${this.model} returned ${response.data?.length ?? 0} embeddings for ${texts.length} inputs`);
+		}
+		return response.data;
+	}
+}
+
+interface AzureOpenAIEmbeddingResponse {
+	data: {
+		embedding: number[];
+		index: number;
+	}[];
+	model?: string;
+	usage?: {
+		prompt_tokens: number;
+		total_tokens: number;
+	};
+}
+
+export class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
+	readonly name = "azure-openai";
+	readonly dimensions?: number;
+	readonly maxBatchSize = AZURE_OPENAI_MAX_BATCH_SIZE;
+	readonly maxBatchTokens = AZURE_OPENAI_MAX_BATCH_TOKENS;
+
+	constructor(private env: Env, readonly model: string) {
+		this.dimensions = env.AZURE_OPENAI_EMBEDDING_DIMENSIONS
+			? Number(env.AZURE_OPENAI_EMBEDDING_DIMENSIONS)
+			: KNOWN_DIMENSIONS[model];
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const response = await fetch(
+			`${this.env.AZURE_OPENAI_ENDPOINT.replace(/\/$/, "")}/openai/deployments/${this.model}/embeddings?api-version=${this.env.AZURE_OPENAI_API_VERSION}`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"api-key": this.env.AZURE_OPENAI_API_KEY || "",
+				},
+				body: JSON.stringify({
+					input: texts,
+					...(this.env.AZURE_OPENAI_EMBEDDING_DIMENSIONS ? { dimensions: this.dimensions } : {})
+				}),
+			}
+		);
+
+		if (!response.ok) {
+			throw new Error(`Azure OpenAI embeddings error: ${response.status} - ${await response.text()}`);
+		}
+
+		const embeddingResponse: AzureOpenAIEmbeddingResponse = await response.json();
+		return [...embeddingResponse.data]
+			.sort((a, b) => a.index - b.index)
+			.map(item => item.embedding);
+	}
+}
+
+export function createEmbeddingProvider(env: Env): EmbeddingProvider {
+	const provider = env.EMBEDDING_PROVIDER ?? "workers-ai";
+
+	switch (provider) {
+		case "workers-ai":
+			return new WorkersAIEmbeddingProvider(env.AI, env.EMBEDDING_MODEL || DEFAULT_WORKERS_AI_EMBEDDING_MODEL);
+		case "azure-openai":
+			if (!env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT) {
+				throw new Error("EMBEDDING_PROVIDER=azure-openai requires AZURE_OPENAI_EMBEDDING_DEPLOYMENT");
+			}
+			return new AzureOpenAIEmbeddingProvider(env, env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT);
+		case "local":
+			return new HashEmbeddingProvider();
+		default:
+			throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected "workers-ai", "azure-openai" or "local")`);
+	}
+}
+
+// Identificador que se guarda en la metadata de cada vector para detectar cambios de modelo
+export function embeddingModelId(provider: EmbeddingProvider): string {
+	return `${provider.name}:${provider.model}`;
+}
+
+// Dimensiones del índice y combinaciones proveedor/modelo ya validadas en este isolate
+let indexDimensions: Promise<number> | null = null;
+const validatedModels = new Set<string>();
+
+async function assertIndexDimensions(env: Env, provider: EmbeddingProvider, outputDimensions: number): Promise<void> {
+	const modelId = embeddingModelId(provider);
+	if (validatedModels.has(modelId)) return;
+
+	if (provider.dimensions !== undefined && provider.dimensions !== outputDimensions) {
+		throw new Error(
+			`Embedding model ${modelId} is configured for ${provider.dimensions} dimensions but returned ${outputDimensions}`
+		);
+	}
+
+	indexDimensions ??= env.VECTORIZE.describe().then(info => info.dimensions);
+	let expected: number;
+	try {
+		expected = await indexDimensions;
+	} catch (error) {
+		indexDimensions = null;
+		throw error;
+	}
+
+	if (expected !== outputDimensions) {
+		throw new Error(
+			`Embedding dimension mismatch: ${modelId} produces ${outputDimensions}-dimensional vectors but the Vectorize index expects ${expected}. ` +
+			`Configure EMBEDDING_PROVIDER/EMBEDDING_MODEL with a ${expected}-dimensional model or recreate the index with ${outputDimensions} dimensions.`
+		);
+	}
+
+	validatedModels.add(modelId);
+}
+
+export interface EmbeddingResult {
+	vectors: number[][];
+	model: string; // embeddingModelId del proveedor que generó los vectores
+}
+
+// Reparte los textos en lotes consecutivos que respetan los límites por llamada del proveedor
+export function embeddingBatches(provider: EmbeddingProvider, texts: string[]): string[][] {
+	const batches: string[][] = [];
+	let batch: string[] = [];
+	let tokens = 0;
+	for (const text of texts) {
+		const cost = estimateTokens(text);
+		const full = batch.length >= provider.maxBatchSize
+			|| (provider.maxBatchTokens !== undefined && tokens + cost > provider.maxBatchTokens);
+		if (batch.length > 0 && full) {
+			batches.push(batch);
+			batch = [];
+			tokens = 0;
+		}
+		batch.push(text);
+		tokens += cost;
+	}
+	if (batch.length > 0) batches.push(batch);
+	return batches;
+}
+
+/**
+ * Genera embeddings con el proveedor configurado, en tantas llamadas como
+ * pidan sus límites. La primera llamada de cada modelo comprueba que sus
+ * dimensiones coinciden con las del índice.
+ */
+export async function embedTexts(env: Env, texts: string[]): Promise<EmbeddingResult> {
+	const provider = createEmbeddingProvider(env);
+	const batches = embeddingBatches(provider, texts);
+	const vectors: number[][] = [];
+	for (const batch of batches) {
+		vectors.push(...await traced(env, "embedding", () => provider.embed(batch)));
+	}
+
+	if (vectors.length > 0) {
+		await assertIndexDimensions(env, provider, vectors[0].length);
+	}
+
+	// Los proveedores de embeddings no devuelven el uso: se estima como el presupuesto de contexto
+	env.USAGE?.record({
+		kind: 'embedding',
+		provider: provider.name,
+		model: provider.model,
+		calls: batches.length,
+		inputs: texts.length,
+		promptTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0),
+		completionTokens: 0
+	});
+
+	return { vectors, model: embeddingModelId(provider) };
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { DateParam, SessionId } from '../schemas';
+import { agentStub } from '../sessions';
+import type { AppContext } from '../types';
+
+export class AgentHistory extends ApiRoute {
+	schema = {
+		tags: ["Agent"],
+		summary: "Get conversation history",
+		request: {
+			query: z.object({
+				sessionId: SessionId.optional(),
+				limit: z.number().int().min(1).max(200).optional().describe("Page size (50 by default)"),
+				cursor: z.number().int().optional().describe("nextCursor of the previous page"),
+				from: DateParam.optional(),
+				to: DateParam.optional(),
+				usedRAG: z.boolean().optional(),
+				q: z.string().optional().describe("Text to search in questions and answers")
+			})
+		},
+		responses: {
+			"200": {
+				description: "A page of interactions, the most recent first",
+				content: {
+					"application/json": {
+						schema: z.object({
+							sessionId: z.string().optional(),
+							history: z.array(z.object({ id: z.number(), question: z.string(), answer: z.string() }).passthrough()),
+							nextCursor: z.string().nullable()
+						}).passthrough()
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to get agent history";
+
+	async handle(c: AppContext) {
+		const { query: { sessionId, ...filters } } = await this.getValidatedData<typeof this.schema>();
+
+		// Paginación (limit, cursor) y filtros (from, to, usedRAG, q) se reenvían al Durable Object
+		const params = new URLSearchParams();
+		for (const [name, value] of Object.entries(filters)) {
+			if (value !== undefined) params.set(name, String(value));
+		}
+
+		// Sin sessionId se consulta la instancia compartida "main-agent"
+		const response = await agentStub(c.get("env"), sessionId).fetch(`https://agent.internal/history?${params}`);
+		const data = await response.json() as Record<string, unknown>;
+
+		return { sessionId, ...data };
+	}
+}
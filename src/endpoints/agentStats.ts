@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { DateParam, SessionId } from '../schemas';
+import { agentStub, analyticsStub } from '../sessions';
+import type { AppContext } from '../types';
+import { modelPrices, summarizeUsage, UsageStore } from '../usage';
+
+export class AgentStats extends ApiRoute {
+	schema = {
+		tags: ["Agent"],
+		summary: "Get agent usage statistics",
+		description: "Interactions, token usage, estimated cost, answer satisfaction by route and source document, and p50/p95 latency of each pipeline stage.",
+		request: {
+			query: z.object({
+				sessionId: SessionId.optional(),
+				from: DateParam.optional(),
+				to: DateParam.optional().describe("A date without time includes the whole day")
+			})
+		},
+		responses: {
+			"200": {
+				description: "Statistics of the session (or of all sessions of the tenant without sessionId) and token usage of the tenant",
+				content: {
+					"application/json": {
+						schema: z.object({
+							sessionId: z.string().optional(),
+							totalInteractions: z.number(),
+							usage: z.record(z.string(), z.unknown()),
+							feedback: z.record(z.string(), z.unknown()),
+							latency: z.array(z.object({ stage: z.string(), count: z.number(), p50Ms: z.number(), p95Ms: z.number() }))
+								.describe('Per stage ("routing", "retrieval.vector_query"...) and "total"')
+						}).passthrough()
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to get agent stats";
+
+	async handle(c: AppContext) {
+		const { query: { sessionId, ...dates } } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+
+		// Rango opcional en ISO 8601; una fecha sin hora en `to` incluye el día completo
+		const range: { from?: string; to?: string } = {};
+		for (const param of ["from", "to"] as const) {
+			const value = dates[param];
+			if (!value) continue;
+
+			const date = new Date(value);
+			if (param === "to" && /^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCHours(23, 59, 59, 999);
+			range[param] = date.toISOString();
+		}
+
+		// Sin sessionId se consulta la copia de todas las sesiones del tenant (instancia "analytics")
+		const stub = sessionId ? agentStub(env, sessionId) : analyticsStub(env);
+		const response = await stub.fetch(`https://agent.internal/stats?${new URLSearchParams(range)}`);
+		const data = await response.json() as Record<string, unknown>;
+
+		// El uso de tokens es del tenant completo, se agrega por día
+		const usageRows = await new UsageStore(env).query(range.from?.slice(0, 10), range.to?.slice(0, 10));
+
+		return {
+			sessionId,
+			...data,
+			usage: summarizeUsage(usageRows, modelPrices(env), range)
+		};
+	}
+}
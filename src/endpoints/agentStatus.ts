@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import type { AppContext } from '../types';
+
+export class AgentStatus extends ApiRoute {
+	schema = {
+		tags: ["Agent"],
+		summary: "Get agent status and the tenant and scope of the credential",
+		responses: {
+			"200": {
+				description: "The agent is running",
+				content: {
+					"application/json": {
+						schema: z.object({
+							status: z.string(),
+							capabilities: z.array(z.string()),
+							tenant: z.string().optional(),
+							scope: z.string().optional(),
+							timestamp: z.string()
+						})
+					}
+				}
+			}
+		}
+	};
+
+	async handle(c: AppContext) {
+		const auth = c.get("auth");
+		return {
+			status: "Agent is running",
+			capabilities: ["RAG decision-making", "Document search", "General conversation"],
+			tenant: auth?.tenant.id,
+			scope: auth?.scope,
+			timestamp: new Date().toISOString()
+		};
+	}
+}
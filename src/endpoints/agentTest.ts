@@ -0,0 +1,53 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { ApiRoute, errorResponse } from '../api';
+import { detectLanguage } from '../language';
+import { RAGAgent } from '../rag-agent';
+import type { AppContext } from '../types';
+
+export class AgentTest extends ApiRoute {
+	schema = {
+		tags: ["Agent"],
+		summary: "Test agent decision making",
+		description: "Returns the route the router would choose for the question, with its confidence, method and reasoning.",
+		request: {
+			body: contentJson(z.object({
+				question: z.string({ required_error: "question is required" }).trim().min(1, "question is required")
+			}))
+		},
+		responses: {
+			"200": {
+				description: "The routing decision",
+				content: {
+					"application/json": {
+						schema: z.object({
+							question: z.string(),
+							decision: z.enum(['RAG', 'GENERAL']),
+							reasoning: z.string(),
+							routing: z.record(z.string(), z.unknown())
+						}).passthrough()
+					}
+				}
+			},
+			"400": errorResponse("Invalid request")
+		}
+	};
+
+	protected failureMessage = "Failed to test agent decision";
+
+	async handle(c: AppContext) {
+		const { body: { question } } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+
+		const language = detectLanguage(env, question);
+		const routing = await new RAGAgent(env).route(question, language.code);
+
+		return {
+			question,
+			language,
+			decision: routing.route,
+			reasoning: routing.reasoning,
+			routing
+		};
+	}
+}
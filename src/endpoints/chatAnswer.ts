@@ -0,0 +1,332 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { runAgentLoop } from '../agent-loop';
+import { AnswerCache, answerCacheMaxEntries, answerCacheThreshold, answerCacheTtl, cacheScope, type CachedAnswer } from '../answer-cache';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { embedTexts } from '../embeddings';
+import { detectLanguage, languageProfile, type Language } from '../language';
+import { streamChatCompletion } from '../llm';
+import { RAGAgent } from '../rag-agent';
+import type { ContextOptions } from '../relevance';
+import { forcedDecision, type RoutingDecision } from '../routing';
+import { ChatRequest, ChatResponse } from '../schemas';
+import { historyTurns, interactionSources, loadRecentTurns, saveInteraction } from '../sessions';
+import type { GroupedSource } from '../sources';
+import { sseEvent, wantsEventStream } from '../streaming';
+import { getDocumentTool, searchKnowledgeBaseTool } from '../tools';
+import { logEvent, traced } from '../tracing';
+import type { AppContext, ChatMessage, Env, TokenUsage } from '../types';
+import { withUsageRoute } from '../usage';
+
+export class ChatAnswer extends ApiRoute {
+	schema = {
+		tags: ["Chat"],
+		summary: "Ask a question with RAG/General routing, agent mode or streaming",
+		request: {
+			body: contentJson(ChatRequest)
+		},
+		responses: {
+			"200": {
+				description: "The answer with its sources and routing decision (text/event-stream with stream: true)",
+				content: {
+					"application/json": { schema: ChatResponse },
+					"text/event-stream": { schema: z.string().describe("Events: decision, sources, delta, done, error") }
+				}
+			},
+			"400": errorResponse("Invalid request"),
+			"429": errorResponse("Rate limit or quota exceeded")
+		}
+	};
+
+	protected failureMessage = "Failed to process chat request";
+
+	async handle(c: AppContext) {
+		const { body } = await this.getValidatedData<typeof this.schema>();
+		const { question, topK, mode, filter, rerank, candidates, threshold, contextTokenBudget, forceRAG, stream, sessionId, historyTurns: requestedTurns, language: requestedLanguage, agent: agentMode, maxSteps, tokenBudget, cache: cacheMode, debug } = body;
+		const env = c.get("env");
+		const eventStream = wantsEventStream(c.req.raw, stream);
+
+		// El bucle de herramientas necesita la respuesta completa de cada paso antes de seguir
+		if (agentMode && eventStream) {
+			throw new ApiError(400, "Streaming is not supported in agent mode");
+		}
+
+		// Últimos turnos de la sesión para preguntas de seguimiento
+		const history = await traced(env, "history", () => loadRecentTurns(env, sessionId, historyTurns(env, requestedTurns)));
+
+		// Se responde en el idioma de la pregunta salvo que la petición fije uno
+		const language = detectLanguage(env, question, requestedLanguage);
+
+		// Modo agente: el modelo decide qué herramientas usar, sin pasar por el router
+		if (agentMode) {
+			const loop = await traced(env, "agent", () => runAgentLoop(withUsageRoute(env, "AGENT"), { question, history, language: language.code, sessionId, maxSteps, tokenBudget }));
+			const usedRAG = loop.toolCalls.some(call => call.tool === searchKnowledgeBaseTool.name || call.tool === getDocumentTool.name);
+
+			const interactionId = await saveInteraction(env, {
+				question,
+				answer: loop.answer,
+				usedRAG,
+				route: "AGENT",
+				timestamp: new Date().toISOString()
+			}, sessionId);
+
+			return {
+				question,
+				...loop,
+				usedRAG,
+				sessionId,
+				interactionId,
+				historyTurnsUsed: history.length / 2,
+				agentDecision: "AGENT",
+				language,
+				debug: debug ? env.TRACE?.debugInfo() : undefined,
+				timestamp: new Date().toISOString()
+			};
+		}
+
+		/**
+		 * Caché semántica: se embebe la pregunta y, si una ya respondida con
+		 * las mismas opciones se parece lo suficiente, se devuelve su respuesta
+		 * sin routing, recuperación ni completion. Las preguntas de seguimiento
+		 * no la usan porque su respuesta depende de la conversación.
+		 */
+		let cacheKey: AnswerCacheKey | null = null;
+		if (cacheMode === 'use' && history.length === 0 && answerCacheTtl(env) > 0) {
+			try {
+				const lookup = await traced(env, "cache", async () => {
+					const { vectors: [vector], model } = await embedTexts(withUsageRoute(env, "cache"), [question]);
+					const scope = cacheScope({ language: language.code, forceRAG, topK, mode, filter, rerank, candidates, threshold, contextTokenBudget, embeddingModel: model });
+					const hit = await new AnswerCache(env).lookup(scope, vector, answerCacheThreshold(env));
+					return { key: { scope, question, vector }, hit };
+				});
+				cacheKey = lookup.key;
+
+				if (lookup.hit) {
+					return await respondFromCache(env, lookup.hit, question, sessionId, language, eventStream, debug);
+				}
+			} catch (error) {
+				console.error("Answer cache lookup failed, answering without cache:", error);
+			}
+		}
+
+		// Let the agent decide whether to use RAG or not
+		const routing = forceRAG ? forcedDecision() : await new RAGAgent(env).route(question, language.code);
+		const retrieval: ContextOptions = { topK, mode, filter, rerank, candidates, threshold, contextTokenBudget };
+
+		// El uso de tokens de la respuesta se contabiliza en la ruta elegida
+		const routedEnv = withUsageRoute(env, routing.route);
+		const routedAgent = new RAGAgent(routedEnv);
+
+		// Modo streaming opcional: `stream: true` o `Accept: text/event-stream`
+		if (eventStream) {
+			return streamChat(routedAgent, routedEnv, c.executionCtx, question, routing, retrieval, history, language, sessionId, debug, cacheKey);
+		}
+
+		const result = routing.route === 'RAG'
+			? await routedAgent.processWithRAG(question, retrieval, history, language.code)
+			: await routedAgent.processGeneral(question, history, language.code);
+
+		const interactionId = await saveInteraction(env, {
+			question: result.question,
+			answer: result.answer,
+			usedRAG: result.usedRAG,
+			route: routing.route,
+			sources: interactionSources(result.sources),
+			timestamp: new Date().toISOString()
+		}, sessionId);
+
+		// El uso de tokens es el de esta petición: no se guarda con la respuesta
+		if (cacheKey) {
+			const { usage, ...answer } = result;
+			cacheAnswer(env, c.executionCtx, cacheKey, { ...answer, agentDecision: routing.route, routing }, result.sources);
+		}
+
+		return {
+			...result,
+			sessionId,
+			interactionId,
+			historyTurnsUsed: history.length / 2,
+			agentDecision: routing.route,
+			routing,
+			language,
+			cached: false,
+			debug: debug ? env.TRACE?.debugInfo() : undefined,
+			timestamp: new Date().toISOString()
+		};
+	}
+}
+
+// Pregunta ya embebida y opciones con las que se busca y se guarda en la caché de respuestas
+interface AnswerCacheKey {
+	scope: string;
+	question: string;
+	vector: number[];
+}
+
+/**
+ * Guarda la respuesta en segundo plano. Se asocia a los documentos que
+ * aportaron chunks al prompt, que son los que la invalidan al cambiar.
+ */
+function cacheAnswer(env: Env, ctx: ExecutionContext, key: AnswerCacheKey, answer: Record<string, unknown>, sources: GroupedSource[]): void {
+	const documentIds = sources.filter(source => source.chunks.some(chunk => chunk.inContext)).map(source => source.id);
+	ctx.waitUntil(new AnswerCache(env).store({
+		...key,
+		answer,
+		documentIds,
+		ttlSeconds: answerCacheTtl(env),
+		maxEntries: answerCacheMaxEntries(env)
+	}).catch(error => {
+		console.error("Failed to cache answer:", error);
+	}));
+}
+
+// Los mismos eventos que streamChat, todos de una vez
+function replayCachedAnswer(body: Record<string, unknown>): Response {
+	const { sources, context_used, retrieval, answer, ...rest } = body;
+	const events = [
+		sseEvent("decision", { agentDecision: rest.agentDecision, usedRAG: rest.usedRAG, routing: rest.routing, language: rest.language, cached: true }),
+		sseEvent("sources", { sources, context_used, retrieval }),
+		sseEvent("delta", { content: answer }),
+		sseEvent("done", { ...rest, answer, sources, context_used, retrieval })
+	];
+	return new Response(events.join(""), {
+		headers: {
+			"Content-Type": "text/event-stream; charset=utf-8",
+			"Cache-Control": "no-cache"
+		}
+	});
+}
+
+// Respuesta de /chat a partir de una entrada de la caché; la interacción se guarda igual que una respuesta nueva
+async function respondFromCache(
+	env: Env,
+	hit: CachedAnswer,
+	question: string,
+	sessionId: string | undefined,
+	language: Language,
+	stream: boolean,
+	debug: boolean
+): Promise<Response> {
+	const timestamp = new Date().toISOString();
+	const interactionId = await saveInteraction(env, {
+		question,
+		answer: String(hit.answer.answer ?? ""),
+		usedRAG: hit.answer.usedRAG === true,
+		route: typeof hit.answer.agentDecision === 'string' ? hit.answer.agentDecision : undefined,
+		sources: interactionSources((hit.answer.sources ?? []) as GroupedSource[]),
+		timestamp
+	}, sessionId);
+
+	const body = {
+		...hit.answer,
+		question,
+		sessionId,
+		interactionId,
+		historyTurnsUsed: 0,
+		language,
+		cached: true,
+		cachedFrom: { question: hit.question, similarity: hit.similarity, createdAt: hit.createdAt, hits: hit.hits },
+		debug: debug ? env.TRACE?.debugInfo() : undefined,
+		timestamp
+	};
+	return stream ? replayCachedAnswer(body) : Response.json(body);
+}
+
+/**
+ * Responde /chat como Server-Sent Events: primero la decisión de routing y
+ * las fuentes, luego los deltas del modelo y por último `done` con el uso de
+ * tokens. La interacción se guarda al terminar el modelo, antes de `done`,
+ * para que `done` lleve su ID. La línea de log de la petición ya salió al
+ * empezar el stream, así que al terminar se escribe otra con las etapas.
+ */
+function streamChat(
+	agent: RAGAgent,
+	env: Env,
+	ctx: ExecutionContext,
+	question: string,
+	routing: RoutingDecision,
+	retrieval: ContextOptions,
+	history: ChatMessage[],
+	language: Language,
+	sessionId: string | undefined,
+	debug: boolean,
+	cacheKey: AnswerCacheKey | null = null
+): Response {
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+	const encoder = new TextEncoder();
+	const send = (event: string, data: unknown) => writer.write(encoder.encode(sseEvent(event, data)));
+
+	const pipeline = (async () => {
+		try {
+			const useRAG = routing.route === 'RAG';
+			await send("decision", { agentDecision: routing.route, usedRAG: useRAG, routing, language });
+
+			const prepared = await agent.prepare(question, useRAG, retrieval, history, language.code);
+			await send("sources", { sources: prepared.sources, context_used: prepared.context_used, retrieval: prepared.retrieval });
+
+			let answer = prepared.fallbackAnswer ?? "";
+			let usage: TokenUsage | undefined;
+			let finishReason: string | undefined;
+			let answeredBy: { provider: string; model: string } | undefined;
+
+			if (prepared.messages) {
+				for await (const chunk of streamChatCompletion(env, prepared.messages)) {
+					if (chunk.type === 'provider') {
+						answeredBy = { provider: chunk.provider, model: chunk.model };
+					} else if (chunk.type === 'delta') {
+						answer += chunk.content;
+						await send("delta", { content: chunk.content });
+					} else if (chunk.type === 'usage') {
+						usage = chunk.usage;
+					} else {
+						finishReason = chunk.reason;
+					}
+				}
+			} else {
+				await send("delta", { content: answer });
+			}
+
+			if (!answer) answer = languageProfile(language.code).emptyAnswer;
+
+			// Los deltas ya enviados llevan los marcadores tal cual; `done` trae la respuesta con las citas resueltas
+			const cited = useRAG ? agent.cite(answer, prepared.passages, prepared.sources) : undefined;
+			if (cited) answer = cited.answer;
+
+			const timestamp = new Date().toISOString();
+			const interactionId = await saveInteraction(env, {
+				question, answer, usedRAG: useRAG, route: routing.route, sources: interactionSources(prepared.sources), timestamp
+			}, sessionId);
+			await send("done", {
+				question, answer, ...cited, usedRAG: useRAG, sessionId, interactionId, ...answeredBy, finish_reason: finishReason, usage, cached: false,
+				debug: debug ? env.TRACE?.debugInfo() : undefined, timestamp
+			});
+			env.TRACE?.log('info', "chat stream completed", { durationMs: env.TRACE.elapsedMs(), stages: env.TRACE.stages() });
+
+			if (cacheKey) {
+				cacheAnswer(env, ctx, cacheKey, {
+					question, answer, ...cited, usedRAG: useRAG, sources: prepared.sources, context_used: prepared.context_used,
+					retrieval: prepared.retrieval, ...answeredBy, agentDecision: routing.route, routing
+				}, prepared.sources);
+			}
+		} catch (error) {
+			logEvent('error', "Chat stream error", { requestId: env.TRACE?.requestId, error: error instanceof Error ? error.message : String(error) });
+			await send("error", {
+				error: "Failed to process chat request",
+				details: error instanceof Error ? error.message : "Unknown error"
+			}).catch(() => {});
+		} finally {
+			await writer.close().catch(() => {});
+		}
+	})();
+
+	ctx.waitUntil(pipeline);
+
+	return new Response(readable, {
+		headers: {
+			"Content-Type": "text/event-stream; charset=utf-8",
+			"Cache-Control": "no-cache",
+			"Connection": "keep-alive"
+		}
+	});
+}
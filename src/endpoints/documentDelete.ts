@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { deleteDocument } from '../indexing';
+import { SuccessResponse } from '../schemas';
+import type { AppContext } from '../types';
+
+export class DocumentDelete extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "Delete a document, its vectors and its original file",
+		request: {
+			params: z.object({
+				id: z.string().describe("Document ID")
+			})
+		},
+		responses: {
+			"200": {
+				description: "The document was deleted",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({ deleted: z.string(), chunks: z.number() })
+					}
+				}
+			},
+			"404": errorResponse("Document not found")
+		}
+	};
+
+	protected failureMessage = "Failed to delete document";
+
+	async handle(c: AppContext) {
+		const { params } = await this.getValidatedData<typeof this.schema>();
+
+		const document = await deleteDocument(c.get("env"), params.id);
+		if (!document) {
+			throw new ApiError(404, "Document not found");
+		}
+
+		return {
+			success: true,
+			deleted: document.id,
+			chunks: document.chunkCount
+		};
+	}
+}
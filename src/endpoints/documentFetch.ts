@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { chunkVectorIds } from '../indexing';
+import { DocumentRegistry } from '../registry';
+import type { AppContext } from '../types';
+
+export class DocumentFetch extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "Get a document with its chunks",
+		request: {
+			params: z.object({
+				id: z.string().describe("Document ID")
+			})
+		},
+		responses: {
+			"200": {
+				description: "The document record, the URL of its original file and its chunks in order",
+				content: {
+					"application/json": {
+						schema: z.object({
+							document: z.object({ id: z.string() }).passthrough(),
+							fileUrl: z.string().optional(),
+							chunks: z.array(z.object({ id: z.string(), chunkIndex: z.unknown(), content: z.unknown() }).passthrough())
+						})
+					}
+				}
+			},
+			"404": errorResponse("Document not found")
+		}
+	};
+
+	protected failureMessage = "Failed to get document";
+
+	async handle(c: AppContext) {
+		const { params } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+
+		const document = await new DocumentRegistry(env).get(params.id);
+		if (!document) {
+			throw new ApiError(404, "Document not found");
+		}
+
+		const vectors = await env.VECTORIZE.getByIds(chunkVectorIds(params.id, 0, document.chunkCount));
+		const chunks = vectors
+			.map(vector => ({
+				id: vector.id,
+				chunkIndex: vector.metadata?.chunkIndex,
+				start: vector.metadata?.charStart,
+				end: vector.metadata?.charEnd,
+				section: vector.metadata?.section,
+				content: vector.metadata?.content
+			}))
+			.sort((a, b) => Number(a.chunkIndex) - Number(b.chunkIndex));
+
+		return {
+			document,
+			fileUrl: document.r2Key ? `/files/${document.r2Key}` : undefined,
+			chunks
+		};
+	}
+}
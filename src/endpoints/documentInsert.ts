@@ -0,0 +1,63 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { resolveChunkOptions } from '../chunking';
+import { indexDocuments, type IndexableDocument } from '../indexing';
+import { InsertDocument, InsertRequest, SuccessResponse } from '../schemas';
+import type { AppContext } from '../types';
+
+// Documentos de /insert y /jobs: un string es el contenido de un documento sin título
+export function toIndexableDocuments(documents: z.infer<typeof InsertDocument>[]): IndexableDocument[] {
+	return documents.map((doc, index) => typeof doc === 'string'
+		? { content: doc, title: `Document ${index + 1}`, source: 'manual_insert' }
+		: { id: doc.id, content: doc.content || doc.text || "", title: doc.title, source: doc.source }
+	);
+}
+
+export class DocumentInsert extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "Insert documents into the knowledge base",
+		request: {
+			body: contentJson(InsertRequest)
+		},
+		responses: {
+			"200": {
+				description: "The indexed documents and the number of chunks",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({
+							inserted: z.number(),
+							chunks: z.number(),
+							documents: z.array(z.object({ id: z.string(), status: z.enum(['created', 'updated', 'unchanged']) }).passthrough())
+						})
+					}
+				}
+			},
+			"400": errorResponse("Invalid request or documents without content")
+		}
+	};
+
+	protected failureMessage = "Failed to insert documents";
+
+	async handle(c: AppContext) {
+		const { body } = await this.getValidatedData<typeof this.schema>();
+		const { documents, chunkSize, chunkOverlap } = body;
+
+		// Los documentos sin ID reciben uno derivado de su contenido, así reinsertarlos no duplica
+		const result = await indexDocuments(c.get("env"), toIndexableDocuments(documents), resolveChunkOptions({ chunkSize, chunkOverlap }));
+
+		// Reenviar documentos ya indexados no genera vectores pero es un upsert correcto: cada uno indica su `status`
+		if (result.documents.length === 0) {
+			throw new ApiError(400, "Documents have no content to index");
+		}
+
+		return {
+			success: true,
+			inserted: result.documents.length,
+			chunks: result.vectors,
+			documents: result.documents,
+			message: `Successfully inserted ${result.documents.length} documents (${result.vectors} chunks)`
+		};
+	}
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { DocumentRegistry } from '../registry';
+import type { AppContext } from '../types';
+
+export class DocumentList extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "List documents in the knowledge base",
+		request: {
+			query: z.object({
+				limit: z.number().int().min(1).max(500).default(50),
+				offset: z.number().int().min(0).default(0)
+			})
+		},
+		responses: {
+			"200": {
+				description: "A page of documents, the most recently updated first",
+				content: {
+					"application/json": {
+						schema: z.object({
+							documents: z.array(z.object({ id: z.string() }).passthrough()),
+							total: z.number()
+						}).passthrough()
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to list documents";
+
+	async handle(c: AppContext) {
+		const { query } = await this.getValidatedData<typeof this.schema>();
+		return new DocumentRegistry(c.get("env")).list(query.limit, query.offset);
+	}
+}
@@ -0,0 +1,46 @@
+import { contentJson } from 'chanfana';
+import { ApiRoute, errorResponse } from '../api';
+import { defaultRetrievalMode, retrieve } from '../retrieval';
+import { SearchRequest, SearchResponse } from '../schemas';
+import { groupMatchesByParent } from '../sources';
+import type { AppContext } from '../types';
+
+export class DocumentSearch extends ApiRoute {
+	schema = {
+		tags: ["Search"],
+		summary: "Search documents by similarity, keywords or both",
+		request: {
+			body: contentJson(SearchRequest)
+		},
+		responses: {
+			"200": {
+				description: "The matching chunks grouped by document",
+				content: { "application/json": { schema: SearchResponse } }
+			},
+			"400": errorResponse("Invalid request")
+		}
+	};
+
+	protected failureMessage = "Search failed";
+
+	async handle(c: AppContext) {
+		const { body } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+		const { query, topK, filter, rerank, candidates } = body;
+		const mode = body.mode ?? defaultRetrievalMode(env);
+
+		const result = await retrieve(env, query, { topK, mode, filter, rerank, candidates });
+
+		return {
+			query,
+			mode,
+			embeddingModel: result.embeddingModel,
+			reranker: result.reranker,
+			candidates: result.candidates,
+			matches: groupMatchesByParent(result.matches),
+			staleEmbeddings: result.staleEmbeddings,
+			filter,
+			postFiltered: result.postFiltered
+		};
+	}
+}
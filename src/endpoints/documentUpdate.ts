@@ -0,0 +1,83 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { resolveChunkOptions } from '../chunking';
+import { detectFileKind, extractText } from '../extract';
+import { indexDocuments } from '../indexing';
+import { DocumentRegistry } from '../registry';
+import { DocumentId, DocumentUpdateRequest, SuccessResponse } from '../schemas';
+import type { AppContext } from '../types';
+
+export class DocumentUpdate extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "Create or replace a document and re-embed it",
+		request: {
+			params: z.object({
+				id: DocumentId.describe("Document ID")
+			}),
+			body: contentJson(DocumentUpdateRequest)
+		},
+		responses: {
+			"200": {
+				description: "The document was replaced",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({ document: z.object({ id: z.string() }).passthrough(), chunks: z.number() })
+					}
+				}
+			},
+			"201": {
+				description: "The document was created",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({ document: z.object({ id: z.string() }).passthrough(), chunks: z.number() })
+					}
+				}
+			},
+			"400": errorResponse("Invalid request or no content to index")
+		}
+	};
+
+	protected failureMessage = "Failed to update document";
+
+	async handle(c: AppContext) {
+		const { params: { id }, body } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+
+		// Sin contenido nuevo se vuelve a extraer el original guardado en R2
+		const existing = await new DocumentRegistry(env).get(id);
+		let content = body.content;
+		if (content === undefined && existing?.r2Key) {
+			const object = await env.R2_BUCKET.get(existing.r2Key);
+			const kind = object ? detectFileKind(existing.r2Key, existing.contentType) : null;
+			content = object && kind ? await extractText(await object.arrayBuffer(), kind) : undefined;
+		}
+
+		if (!content) {
+			throw new ApiError(400, existing ? "Document original is not available; content is required" : "Content is required");
+		}
+
+		const result = await indexDocuments(env, [{
+			id,
+			content,
+			title: body.title ?? existing?.title,
+			source: body.source ?? existing?.source,
+			r2Key: body.content === undefined ? existing?.r2Key : undefined,
+			contentType: body.content === undefined ? existing?.contentType : undefined
+		}], resolveChunkOptions(body), { force: true });
+
+		// Un contenido solo con espacios no produce chunks y no se indexa
+		if (result.documents.length === 0) {
+			throw new ApiError(400, "Document has no content to index");
+		}
+
+		return Response.json({
+			success: true,
+			document: result.documents[0],
+			chunks: result.vectors
+		}, {
+			status: existing ? 200 : 201
+		});
+	}
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { resolveChunkOptions } from '../chunking';
+import { detectFileKind, extractText, FILE_CONTENT_TYPES } from '../extract';
+import { documentKey, indexDocuments, resolveDocumentId, type IndexableDocument } from '../indexing';
+import { SuccessResponse, UploadForm, UploadRequest } from '../schemas';
+import type { AppContext } from '../types';
+
+// Tamaño máximo por archivo en POST /upload
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export class DocumentUpload extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "Upload files (Markdown, text, HTML, JSON, PDF) to R2 and index them",
+		request: {
+			body: {
+				content: {
+					"multipart/form-data": {
+						schema: UploadRequest
+					}
+				}
+			}
+		},
+		responses: {
+			"200": {
+				description: "The indexed files and the number of chunks",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({
+							inserted: z.number(),
+							chunks: z.number(),
+							skipped: z.array(z.object({ name: z.string(), reason: z.string() }))
+						})
+					}
+				}
+			},
+			"400": errorResponse("Invalid form"),
+			"415": errorResponse("Unsupported or too large files"),
+			"422": errorResponse("No file had extractable text or a JSON file is invalid")
+		}
+	};
+
+	protected failureMessage = "Failed to upload files";
+
+	async handle(c: AppContext) {
+		const env = c.get("env");
+		// Un cuerpo que no es multipart/form-data (o está truncado) hace que formData() lance TypeError
+		let form: FormData;
+		try {
+			form = await c.req.raw.formData();
+		} catch {
+			throw new ApiError(400, "Request body must be multipart/form-data");
+		}
+		const files = form.getAll("file").filter((entry): entry is File => typeof entry !== 'string');
+
+		// chanfana solo valida cuerpos JSON: los campos del formulario se validan aquí con UploadForm
+		const field = (name: string) => {
+			const value = form.get(name);
+			return typeof value === 'string' ? value : undefined;
+		};
+		const { body: options } = z.object({ body: UploadForm }).parse({
+			body: {
+				id: field("id"),
+				title: field("title"),
+				source: field("source"),
+				chunkSize: form.has("chunkSize") ? Number(form.get("chunkSize")) : undefined,
+				chunkOverlap: form.has("chunkOverlap") ? Number(form.get("chunkOverlap")) : undefined
+			}
+		});
+
+		if (files.length === 0) {
+			throw new ApiError(400, "At least one file is required (multipart field 'file')");
+		}
+
+		const rejected = files.filter(file => !detectFileKind(file.name, file.type) || file.size > MAX_UPLOAD_BYTES);
+		if (rejected.length > 0) {
+			throw new ApiError(415, "Unsupported or too large files", rejected.map(file => ({
+				name: file.name,
+				type: file.type,
+				size: file.size,
+				reason: file.size > MAX_UPLOAD_BYTES ? `Larger than ${MAX_UPLOAD_BYTES} bytes` : "Unsupported file type"
+			})));
+		}
+
+		if (options.id !== undefined && files.length > 1) {
+			throw new ApiError(400, "'id' can only be used with a single file");
+		}
+
+		const documents: IndexableDocument[] = [];
+		const empty: string[] = [];
+
+		for (const file of files) {
+			const kind = detectFileKind(file.name, file.type)!;
+			const data = await file.arrayBuffer();
+			const content = await extractText(data, kind).catch((error: unknown) => {
+				if (kind === 'json' && error instanceof SyntaxError) {
+					throw new ApiError(422, "Invalid JSON file", [{ name: file.name, reason: error.message }]);
+				}
+				throw error;
+			});
+			if (!content.trim()) {
+				empty.push(file.name);
+				continue;
+			}
+
+			const id = await resolveDocumentId(content, options.id);
+			const r2Key = documentKey(id, file.name);
+
+			// Guardar el archivo original en R2
+			await env.R2_BUCKET.put(r2Key, data, {
+				httpMetadata: { contentType: FILE_CONTENT_TYPES[kind] },
+				customMetadata: { documentId: id, filename: file.name }
+			});
+
+			documents.push({
+				id,
+				content,
+				title: options.title !== undefined && files.length === 1 ? options.title : file.name,
+				source: options.source ?? 'file_upload',
+				r2Key,
+				contentType: FILE_CONTENT_TYPES[kind]
+			});
+		}
+
+		const result = await indexDocuments(env, documents, resolveChunkOptions(options));
+		// Un archivo ya indexado sin cambios no genera vectores pero la subida es correcta
+		const indexed = result.documents.length > 0;
+
+		return Response.json({
+			success: indexed,
+			inserted: result.documents.length,
+			chunks: result.vectors,
+			documents: result.documents,
+			skipped: empty.map(name => ({ name, reason: "No extractable text" })),
+			message: `Successfully indexed ${result.documents.length} of ${files.length} files (${result.vectors} chunks)`
+		}, {
+			status: indexed ? 200 : 422
+		});
+	}
+}
@@ -0,0 +1,91 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { ApiRoute, errorResponse } from '../api';
+import { EvalStore, type EvalRunRecord } from '../eval-store';
+import { runEvaluation } from '../evaluation';
+import { defaultRetrievalMode } from '../retrieval';
+import { routingStrategy } from '../routing';
+import { EvalRequest } from '../schemas';
+import type { AppContext } from '../types';
+
+export class EvalCreate extends ApiRoute {
+	schema = {
+		tags: ["Evaluation"],
+		summary: "Evaluate routing accuracy and retrieval recall@k/MRR on a labeled dataset",
+		request: {
+			body: contentJson(EvalRequest)
+		},
+		responses: {
+			"200": {
+				description: "The stored run with its report and the deltas against the previous run",
+				content: {
+					"application/json": {
+						schema: z.object({
+							id: z.string(),
+							name: z.string().optional(),
+							createdAt: z.string(),
+							comparison: z.object({
+								previousRunId: z.string(),
+								routingAccuracy: z.number().nullable(),
+								recallAtK: z.number().nullable(),
+								mrr: z.number().nullable()
+							}).nullable()
+						}).passthrough()
+					}
+				}
+			},
+			"400": errorResponse("Invalid dataset")
+		}
+	};
+
+	protected failureMessage = "Evaluation failed";
+
+	async handle(c: AppContext) {
+		const { body: dataset } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+
+		const store = new EvalStore(env);
+		// Ejecución anterior (con el mismo nombre si se indica) para comparar
+		const [previous] = await store.list(1, dataset.name);
+		const report = await runEvaluation(env, dataset);
+
+		const run: EvalRunRecord = {
+			id: `eval-${crypto.randomUUID()}`,
+			name: dataset.name,
+			createdAt: new Date().toISOString(),
+			itemCount: report.itemCount,
+			k: report.k,
+			routingAccuracy: report.routing.accuracy,
+			recallAtK: report.retrieval.recallAtK,
+			mrr: report.retrieval.mrr,
+			config: {
+				mode: dataset.mode ?? defaultRetrievalMode(env),
+				filter: dataset.filter,
+				rerank: dataset.rerank,
+				candidates: dataset.candidates,
+				routingStrategy: routingStrategy(env),
+				embeddingProvider: env.EMBEDDING_PROVIDER ?? "workers-ai",
+				rerankerModel: env.RERANKER_MODEL
+			},
+			report: { ...report }
+		};
+		await store.save(run);
+
+		const delta = (current: number | null, before: number | null | undefined) =>
+			current !== null && before !== null && before !== undefined ? current - before : null;
+
+		return {
+			id: run.id,
+			name: run.name,
+			createdAt: run.createdAt,
+			config: run.config,
+			...report,
+			comparison: previous ? {
+				previousRunId: previous.id,
+				routingAccuracy: delta(report.routing.accuracy, previous.routingAccuracy),
+				recallAtK: delta(report.retrieval.recallAtK, previous.recallAtK),
+				mrr: delta(report.retrieval.mrr, previous.mrr)
+			} : null
+		};
+	}
+}
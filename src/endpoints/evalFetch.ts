@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { EvalStore } from '../eval-store';
+import type { AppContext } from '../types';
+
+export class EvalFetch extends ApiRoute {
+	schema = {
+		tags: ["Evaluation"],
+		summary: "Get an evaluation run with its full report",
+		request: {
+			params: z.object({
+				id: z.string().describe("Run ID (eval-...)")
+			})
+		},
+		responses: {
+			"200": {
+				description: "The run with its configuration and report",
+				content: {
+					"application/json": {
+						schema: z.object({ run: z.object({ id: z.string(), report: z.record(z.string(), z.unknown()) }).passthrough() })
+					}
+				}
+			},
+			"404": errorResponse("Eval run not found")
+		}
+	};
+
+	protected failureMessage = "Failed to get evaluation run";
+
+	async handle(c: AppContext) {
+		const { params } = await this.getValidatedData<typeof this.schema>();
+		const run = await new EvalStore(c.get("env")).get(params.id);
+		if (!run) {
+			throw new ApiError(404, "Eval run not found");
+		}
+		return { run };
+	}
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { EvalStore } from '../eval-store';
+import type { AppContext } from '../types';
+
+export class EvalList extends ApiRoute {
+	schema = {
+		tags: ["Evaluation"],
+		summary: "List stored evaluation runs",
+		request: {
+			query: z.object({
+				name: z.string().optional().describe("Only runs with this name"),
+				limit: z.number().int().min(1).max(200).default(20)
+			})
+		},
+		responses: {
+			"200": {
+				description: "Run summaries, the most recent first",
+				content: {
+					"application/json": {
+						schema: z.object({ runs: z.array(z.object({ id: z.string(), createdAt: z.string() }).passthrough()) })
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to list evaluation runs";
+
+	async handle(c: AppContext) {
+		const { query } = await this.getValidatedData<typeof this.schema>();
+		const runs = await new EvalStore(c.get("env")).list(query.limit, query.name);
+		return { runs };
+	}
+}
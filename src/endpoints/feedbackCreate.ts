@@ -0,0 +1,45 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { submitFeedback } from '../feedback';
+import { FeedbackRequest, SuccessResponse } from '../schemas';
+import type { AppContext } from '../types';
+
+export class FeedbackCreate extends ApiRoute {
+	schema = {
+		tags: ["Feedback"],
+		summary: "Rate a /chat answer by its interactionId",
+		description: "Rating again replaces the previous feedback. Send the sessionId of the /chat request if it had one.",
+		request: {
+			body: contentJson(FeedbackRequest)
+		},
+		responses: {
+			"200": {
+				description: "The saved feedback",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({
+							sessionId: z.string().optional(),
+							feedback: z.object({ interactionId: z.number(), rating: z.number() }).passthrough()
+						})
+					}
+				}
+			},
+			"400": errorResponse("Invalid request"),
+			"404": errorResponse("Interaction not found in this session")
+		}
+	};
+
+	protected failureMessage = "Failed to save feedback";
+
+	async handle(c: AppContext) {
+		const { body: { interactionId, sessionId, ...input } } = await this.getValidatedData<typeof this.schema>();
+
+		const feedback = await submitFeedback(c.get("env"), sessionId, interactionId, input);
+		if (!feedback) {
+			throw new ApiError(404, "Interaction not found in this session");
+		}
+
+		return { success: true, sessionId, feedback };
+	}
+}
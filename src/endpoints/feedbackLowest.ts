@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { lowestRatedInteractions, MAX_RATING, MIN_RATING } from '../feedback';
+import { SessionId } from '../schemas';
+import type { AppContext } from '../types';
+
+export class FeedbackLowest extends ApiRoute {
+	schema = {
+		tags: ["Feedback"],
+		summary: "List the lowest-rated interactions with their retrieved sources",
+		request: {
+			query: z.object({
+				sessionId: SessionId.optional(),
+				limit: z.number().int().min(1).max(100).optional().describe("20 by default"),
+				maxRating: z.number().int().min(MIN_RATING).max(MAX_RATING).optional().describe("Ratings up to this value (3 by default)")
+			})
+		},
+		responses: {
+			"200": {
+				description: "Rated interactions, the worst first; without sessionId, those of all sessions",
+				content: {
+					"application/json": {
+						schema: z.object({
+							sessionId: z.string().optional(),
+							interactions: z.array(z.object({
+								sessionId: z.string().optional().describe("Session of the interaction when listing all sessions"),
+								question: z.string(),
+								answer: z.string(),
+								feedback: z.object({ rating: z.number() }).passthrough()
+							}).passthrough())
+						})
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to get lowest-rated interactions";
+
+	async handle(c: AppContext) {
+		const { query: { sessionId, limit, maxRating } } = await this.getValidatedData<typeof this.schema>();
+
+		// Sin sessionId se consultan las valoraciones de todas las sesiones del tenant
+		const interactions = await lowestRatedInteractions(c.get("env"), sessionId, { limit, maxRating });
+		return { sessionId, interactions };
+	}
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import type { AppContext } from '../types';
+
+export class FileFetch extends ApiRoute {
+	schema = {
+		tags: ["Documents"],
+		summary: "Download the original file of a document",
+		description: "The key is the fileUrl of the document without the /files/ prefix (documents/<id>/<file name>).",
+		responses: {
+			"200": {
+				description: "The file with its original content type",
+				content: { "application/octet-stream": { schema: z.string().openapi({ format: "binary" }) } }
+			},
+			"400": errorResponse("Malformed file key"),
+			"404": errorResponse("File not found")
+		}
+	};
+
+	protected failureMessage = "Failed to get file";
+
+	async handle(c: AppContext) {
+		let key: string;
+		try {
+			key = decodeURIComponent(c.req.path.slice("/files/".length));
+		} catch {
+			throw new ApiError(400, "Malformed file key");
+		}
+		const object = key.startsWith("documents/") ? await c.get("env").R2_BUCKET.get(key) : null;
+		if (!object) {
+			throw new ApiError(404, "File not found");
+		}
+
+		const headers = new Headers();
+		object.writeHttpMetadata(headers);
+		headers.set("ETag", object.httpEtag);
+		return new Response(object.body, { headers });
+	}
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+
+export class Health extends ApiRoute {
+	schema = {
+		tags: ["Health"],
+		summary: "Health check",
+		security: [],
+		responses: {
+			"200": {
+				description: "The worker is up",
+				content: {
+					"application/json": {
+						schema: z.object({ status: z.string(), services: z.array(z.string()), timestamp: z.string() })
+					}
+				}
+			}
+		}
+	};
+
+	async handle() {
+		return {
+			status: "healthy",
+			services: ["RAG", "Agent", "Vectorize", "Workers AI"],
+			timestamp: new Date().toISOString()
+		};
+	}
+}
@@ -0,0 +1,95 @@
+import { contentJson } from 'chanfana';
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { resolveChunkOptions } from '../chunking';
+import { resolveDocumentId } from '../indexing';
+import { IngestionJobs, MAX_JOB_BYTES } from '../jobs';
+import { JobRequest, SuccessResponse } from '../schemas';
+import { DEFAULT_TENANT } from '../tenants';
+import type { AppContext } from '../types';
+import { toIndexableDocuments } from './documentInsert';
+
+export class JobCreate extends ApiRoute {
+	schema = {
+		tags: ["Jobs"],
+		summary: "Insert documents in the background",
+		description: "Same body as POST /insert. The documents are indexed in batches sized for the embedding model; follow the progress with GET /jobs/{id}.",
+		request: {
+			body: contentJson(JobRequest)
+		},
+		responses: {
+			"202": {
+				description: "The job was queued",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({ jobId: z.string(), status: z.string(), documents: z.number(), statusUrl: z.string() })
+					}
+				}
+			},
+			"400": errorResponse("Invalid request or documents without content"),
+			"413": errorResponse(`Request body larger than ${MAX_JOB_BYTES} bytes`)
+		}
+	};
+
+	protected failureMessage = "Failed to create ingestion job";
+
+	async handle(c: AppContext) {
+		// getValidatedData leería el cuerpo entero: se lee aquí con el límite y se valida con JobRequest
+		const { body: { documents, chunkSize, chunkOverlap } } = await z.object({ body: JobRequest }).parseAsync({
+			body: parseJson(await readBody(c.req.raw, MAX_JOB_BYTES))
+		});
+		const env = c.get("env");
+		const chunkOptions = resolveChunkOptions({ chunkSize, chunkOverlap });
+
+		// Los IDs se resuelven ahora para que el estado del job identifique cada documento
+		const indexable = await Promise.all(toIndexableDocuments(documents).map(async document => ({
+			...document,
+			id: await resolveDocumentId(document.content, document.id)
+		})));
+		if (indexable.every(document => document.content.trim() === "")) {
+			throw new ApiError(400, "Documents have no content to index");
+		}
+
+		const job = await new IngestionJobs(env).create({
+			id: `job-${crypto.randomUUID()}`,
+			tenantId: env.TENANT_ID ?? DEFAULT_TENANT,
+			chunkOptions,
+			documents: indexable
+		});
+
+		const statusUrl = `/jobs/${job.id}`;
+		return Response.json({
+			success: true,
+			jobId: job.id,
+			status: job.status,
+			documents: job.progress.total,
+			statusUrl,
+			message: `Queued ${job.progress.total} documents for indexing`
+		}, { status: 202, headers: { Location: statusUrl } });
+	}
+}
+
+// Corta la lectura en cuanto el cuerpo supera maxBytes; el Content-Length puede faltar (chunked)
+async function readBody(request: Request, maxBytes: number): Promise<string> {
+	const tooLarge = () => new ApiError(413, `Request body larger than ${maxBytes} bytes; split the documents into several jobs`);
+	if (Number(request.headers.get("Content-Length")) > maxBytes) throw tooLarge();
+
+	const decoder = new TextDecoder();
+	let text = "";
+	let size = 0;
+	for await (const chunk of request.body ?? []) {
+		size += chunk.byteLength;
+		if (size > maxBytes) throw tooLarge();
+		text += decoder.decode(chunk, { stream: true });
+	}
+	return text + decoder.decode();
+}
+
+// Como chanfana: un cuerpo que no es JSON se valida como vacío
+function parseJson(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return {};
+	}
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { IngestionJobs } from '../jobs';
+import { IngestionJobSchema } from '../schemas';
+import type { AppContext } from '../types';
+
+export class JobFetch extends ApiRoute {
+	schema = {
+		tags: ["Jobs"],
+		summary: "Get the progress of an ingestion job",
+		description: "Documents that failed keep the error of their last attempt; retry them with POST /jobs/{id}/retry.",
+		request: {
+			params: z.object({
+				id: z.string().describe("Job ID (job-...)")
+			})
+		},
+		responses: {
+			"200": {
+				description: "The job with its progress and the status of each document",
+				content: {
+					"application/json": {
+						schema: z.object({ job: IngestionJobSchema })
+					}
+				}
+			},
+			"404": errorResponse("Job not found")
+		}
+	};
+
+	protected failureMessage = "Failed to get ingestion job";
+
+	async handle(c: AppContext) {
+		const { params } = await this.getValidatedData<typeof this.schema>();
+		const job = await new IngestionJobs(c.get("env")).get(params.id);
+		if (!job) {
+			throw new ApiError(404, "Job not found");
+		}
+		return { job };
+	}
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { IngestionJobs } from '../jobs';
+import { IngestionJobSchema, SuccessResponse } from '../schemas';
+import type { AppContext } from '../types';
+
+export class JobRetry extends ApiRoute {
+	schema = {
+		tags: ["Jobs"],
+		summary: "Retry the failed documents of an ingestion job",
+		request: {
+			params: z.object({
+				id: z.string().describe("Job ID (job-...)")
+			})
+		},
+		responses: {
+			"200": {
+				description: "The failed documents were queued again",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({ retried: z.number(), job: IngestionJobSchema })
+					}
+				}
+			},
+			"404": errorResponse("Job not found"),
+			"409": errorResponse("The job has no failed documents")
+		}
+	};
+
+	protected failureMessage = "Failed to retry ingestion job";
+
+	async handle(c: AppContext) {
+		const { params } = await this.getValidatedData<typeof this.schema>();
+		const result = await new IngestionJobs(c.get("env")).retry(params.id);
+		if (!result) {
+			throw new ApiError(404, "Job not found");
+		}
+		if (result.retried === 0) {
+			throw new ApiError(409, "The job has no failed documents to retry", undefined, { job: result.job });
+		}
+		return { success: true, ...result };
+	}
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { ApiError, ApiRoute, errorResponse } from '../api';
+import { RateLimiter } from '../rate-limit';
+import type { AppContext } from '../types';
+
+export class RateLimitFetch extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "Inspect the counters of one client",
+		description: "Requires the admin scope.",
+		request: {
+			params: z.object({
+				clientId: z.string().describe("API key name, JWT subject or IP of the client")
+			})
+		},
+		responses: {
+			"200": {
+				description: "The counters of the client",
+				content: {
+					"application/json": {
+						schema: z.object({ counter: z.object({ clientId: z.string() }).passthrough() })
+					}
+				}
+			},
+			"404": errorResponse("No counters for this client")
+		}
+	};
+
+	protected failureMessage = "Failed to access rate limit counters";
+
+	async handle(c: AppContext) {
+		const { params } = await this.getValidatedData<typeof this.schema>();
+		const counter = await new RateLimiter(c.get("env")).get(params.clientId);
+		if (!counter) {
+			throw new ApiError(404, "No counters for this client");
+		}
+		return { counter };
+	}
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { RateLimiter, rateLimits } from '../rate-limit';
+import type { AppContext } from '../types';
+
+export class RateLimitList extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "List rate limit and quota counters of the tenant",
+		description: "Requires the admin scope.",
+		request: {
+			query: z.object({
+				limit: z.number().int().min(1).max(500).default(50)
+			})
+		},
+		responses: {
+			"200": {
+				description: "Counters of the clients, the most recent first, and the configured limits",
+				content: {
+					"application/json": {
+						schema: z.object({
+							counters: z.array(z.object({ clientId: z.string() }).passthrough()),
+							limits: z.record(z.string(), z.unknown())
+						})
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to list rate limit counters";
+
+	async handle(c: AppContext) {
+		const { query } = await this.getValidatedData<typeof this.schema>();
+		const env = c.get("env");
+		return {
+			counters: await new RateLimiter(env).list(query.limit),
+			limits: rateLimits(env)
+		};
+	}
+}
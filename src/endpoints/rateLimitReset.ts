@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { ApiRoute } from '../api';
+import { RateLimiter } from '../rate-limit';
+import { SuccessResponse } from '../schemas';
+import type { AppContext } from '../types';
+
+export class RateLimitReset extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "Reset the counters of one client",
+		description: "Requires the admin scope.",
+		request: {
+			params: z.object({
+				clientId: z.string().describe("API key name, JWT subject or IP of the client")
+			})
+		},
+		responses: {
+			"200": {
+				description: "reset is false when the client had no counters",
+				content: {
+					"application/json": {
+						schema: SuccessResponse.extend({ clientId: z.string(), reset: z.boolean() })
+					}
+				}
+			}
+		}
+	};
+
+	protected failureMessage = "Failed to access rate limit counters";
+
+	async handle(c: AppContext) {
+		const { params: { clientId } } = await this.getValidatedData<typeof this.schema>();
+		const reset = await new RateLimiter(c.get("env")).reset(clientId);
+		return { success: true, clientId, reset };
+	}
+}
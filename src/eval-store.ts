@@ -0,0 +1,63 @@
+// Cliente de las ejecuciones de evaluación guardadas en el SQLite del Durable Object MyAgent
+import { KNOWLEDGE_BASE_AGENT } from './registry';
+import type { Env } from './types';
+
+export interface EvalRunSummary {
+	id: string;
+	name?: string;
+	createdAt: string;
+	itemCount: number;
+	k: number;
+	routingAccuracy: number | null; // null si ningún ítem tenía expectedRoute
+	recallAtK: number | null; // null si ningún ítem tenía relevantDocumentIds
+	mrr: number | null;
+}
+
+export interface EvalRunRecord extends EvalRunSummary {
+	config: Record<string, unknown>;
+	report: Record<string, unknown>;
+}
+
+export class EvalStore {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		// Las evaluaciones miden la base de conocimientos, así que se guardan junto a su registro
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(KNOWLEDGE_BASE_AGENT));
+	}
+
+	async list(limit = 20, name?: string): Promise<EvalRunSummary[]> {
+		const params = new URLSearchParams({ limit: String(limit) });
+		if (name) params.set("name", name);
+		const { runs } = await this.call<{ runs: EvalRunSummary[] }>(`/evals?${params}`);
+		return runs;
+	}
+
+	async get(id: string): Promise<EvalRunRecord | null> {
+		const response = await this.stub.fetch(`https://agent.internal/evals/${encodeURIComponent(id)}`);
+		if (response.status === 404) return null;
+		if (!response.ok) {
+			throw new Error(`Eval store error: ${response.status} - ${await response.text()}`);
+		}
+		const { run } = await response.json() as { run: EvalRunRecord };
+		return run;
+	}
+
+	async save(run: EvalRunRecord): Promise<void> {
+		await this.call("/evals", {
+			method: "POST",
+			body: JSON.stringify(run)
+		});
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Eval store error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
@@ -0,0 +1,169 @@
+// Evaluación del router y del retriever contra un dataset etiquetado
+import type { MetadataFilter } from './filters';
+import { retrieve, type RetrievalMode, type RetrievalOptions } from './retrieval';
+import { decideRoute, type Route, type RoutingMethod } from './routing';
+import { groupMatchesByParent } from './sources';
+import type { Env } from './types';
+
+export const MAX_EVAL_ITEMS = 100;
+export const DEFAULT_EVAL_K = 5;
+
+// Ítems evaluados en paralelo: cada uno hace varias subrequests (embeddings, Vectorize, LLM...)
+const EVAL_CONCURRENCY = 4;
+
+export const ROUTES: Route[] = ['RAG', 'GENERAL'];
+
+export interface EvalItem {
+	id?: string;
+	question: string;
+	expectedRoute?: Route;
+	relevantDocumentIds?: string[];
+}
+
+export interface EvalDataset {
+	name?: string;
+	items: EvalItem[];
+	k?: number; // Chunks recuperados por pregunta
+	mode?: RetrievalMode;
+	filter?: MetadataFilter;
+	rerank?: boolean;
+	candidates?: number;
+}
+
+export interface EvalItemResult {
+	index: number;
+	id?: string;
+	question: string;
+	expectedRoute?: Route;
+	predictedRoute?: Route;
+	routingMethod?: RoutingMethod;
+	routingConfidence?: number;
+	relevantDocumentIds?: string[];
+	retrievedDocumentIds?: string[];
+	recall?: number;
+	reciprocalRank?: number;
+	error?: string;
+}
+
+// Filas: ruta esperada; columnas: ruta elegida por el router
+export type ConfusionMatrix = Record<Route, Record<Route, number>>;
+
+export interface EvalReport {
+	itemCount: number;
+	k: number;
+	routing: {
+		evaluated: number;
+		accuracy: number | null;
+		confusionMatrix: ConfusionMatrix;
+	};
+	retrieval: {
+		evaluated: number;
+		recallAtK: number | null;
+		mrr: number | null;
+	};
+	errors: number;
+	failures: EvalItemResult[]; // Ítems con ruta incorrecta, documentos no recuperados o error
+}
+
+// Fracción de documentos relevantes que aparecen entre los recuperados
+export function recall(relevant: string[], retrieved: string[]): number {
+	if (relevant.length === 0) return 1;
+	const found = relevant.filter(id => retrieved.includes(id));
+	return found.length / relevant.length;
+}
+
+// 1 / posición del primer documento relevante (0 si no se recuperó ninguno)
+export function reciprocalRank(relevant: string[], retrieved: string[]): number {
+	const position = retrieved.findIndex(id => relevant.includes(id));
+	return position >= 0 ? 1 / (position + 1) : 0;
+}
+
+function average(values: number[]): number | null {
+	return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+async function evaluateItem(env: Env, item: EvalItem, index: number, options: RetrievalOptions): Promise<EvalItemResult> {
+	const result: EvalItemResult = {
+		index,
+		id: item.id,
+		question: item.question,
+		expectedRoute: item.expectedRoute,
+		relevantDocumentIds: item.relevantDocumentIds
+	};
+
+	try {
+		if (item.expectedRoute) {
+			// Sin caché: se mide el router actual, no decisiones anteriores
+			const decision = await decideRoute(env, item.question, { cache: false });
+			result.predictedRoute = decision.route;
+			result.routingMethod = decision.method;
+			result.routingConfidence = decision.confidence;
+		}
+
+		if (item.relevantDocumentIds) {
+			const { matches } = await retrieve(env, item.question, options);
+			// Los documentos se ordenan por su mejor chunk, igual que las fuentes de /chat
+			const retrieved = groupMatchesByParent(matches).map(source => source.id);
+			result.retrievedDocumentIds = retrieved;
+			result.recall = recall(item.relevantDocumentIds, retrieved);
+			result.reciprocalRank = reciprocalRank(item.relevantDocumentIds, retrieved);
+		}
+	} catch (error) {
+		result.error = error instanceof Error ? error.message : "Unknown error";
+	}
+
+	return result;
+}
+
+/**
+ * Ejecuta el dataset contra el router y el retriever con la configuración
+ * actual. recall@k y MRR se calculan sobre los documentos de los k chunks
+ * recuperados, que es lo que llega al prompt de /chat.
+ */
+export async function runEvaluation(env: Env, dataset: EvalDataset): Promise<EvalReport> {
+	const k = dataset.k ?? DEFAULT_EVAL_K;
+	const options: RetrievalOptions = {
+		topK: k,
+		mode: dataset.mode,
+		filter: dataset.filter,
+		rerank: dataset.rerank,
+		candidates: dataset.candidates
+	};
+
+	const results: EvalItemResult[] = [];
+	for (let start = 0; start < dataset.items.length; start += EVAL_CONCURRENCY) {
+		const batch = dataset.items.slice(start, start + EVAL_CONCURRENCY);
+		results.push(...await Promise.all(batch.map((item, offset) => evaluateItem(env, item, start + offset, options))));
+	}
+
+	const confusionMatrix: ConfusionMatrix = {
+		RAG: { RAG: 0, GENERAL: 0 },
+		GENERAL: { RAG: 0, GENERAL: 0 }
+	};
+	const routed = results.filter(result => result.expectedRoute && result.predictedRoute);
+	for (const result of routed) {
+		confusionMatrix[result.expectedRoute!][result.predictedRoute!]++;
+	}
+	const retrieved = results.filter(result => result.recall !== undefined);
+
+	return {
+		itemCount: results.length,
+		k,
+		routing: {
+			evaluated: routed.length,
+			accuracy: average(routed.map(result => result.expectedRoute === result.predictedRoute ? 1 : 0)),
+			confusionMatrix
+		},
+		retrieval: {
+			evaluated: retrieved.length,
+			recallAtK: average(retrieved.map(result => result.recall!)),
+			mrr: average(retrieved.map(result => result.reciprocalRank!))
+		},
+		errors: results.filter(result => result.error).length,
+		failures: results.filter(result =>
+			result.error !== undefined ||
+			(result.predictedRoute !== undefined && result.predictedRoute !== result.expectedRoute) ||
+			(result.recall !== undefined && result.recall < 1)
+		)
+	};
+}
@@ -0,0 +1,205 @@
+// Extracción de texto de los archivos subidos a la base de conocimientos
+
+export type FileKind = 'markdown' | 'text' | 'html' | 'json' | 'pdf';
+
+const EXTENSION_KINDS: Record<string, FileKind> = {
+	md: 'markdown',
+	markdown: 'markdown',
+	txt: 'text',
+	text: 'text',
+	html: 'html',
+	htm: 'html',
+	json: 'json',
+	pdf: 'pdf'
+};
+
+const MIME_KINDS: Record<string, FileKind> = {
+	'text/markdown': 'markdown',
+	'text/x-markdown': 'markdown',
+	'text/plain': 'text',
+	'text/html': 'html',
+	'application/xhtml+xml': 'html',
+	'application/json': 'json',
+	'application/pdf': 'pdf'
+};
+
+export const FILE_CONTENT_TYPES: Record<FileKind, string> = {
+	markdown: 'text/markdown; charset=utf-8',
+	text: 'text/plain; charset=utf-8',
+	html: 'text/html; charset=utf-8',
+	json: 'application/json',
+	pdf: 'application/pdf'
+};
+
+// La extensión manda sobre el MIME: los navegadores suelen mandar .md como octet-stream
+export function detectFileKind(filename: string, contentType?: string): FileKind | null {
+	const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+	if (EXTENSION_KINDS[extension]) return EXTENSION_KINDS[extension];
+
+	const mime = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+	return MIME_KINDS[mime] ?? null;
+}
+
+export async function extractText(data: ArrayBuffer, kind: FileKind): Promise<string> {
+	switch (kind) {
+		case 'markdown':
+		case 'text':
+			return new TextDecoder().decode(data);
+		case 'html':
+			return htmlToText(new TextDecoder().decode(data));
+		case 'json':
+			return jsonToText(JSON.parse(new TextDecoder().decode(data)));
+		case 'pdf':
+			return pdfToText(new Uint8Array(data));
+	}
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' '
+};
+
+// Conserva los encabezados como Markdown para que el chunker pueda respetarlos
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text.trim()}\n\n`)
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<li[^>]*>/gi, '\n- ')
+		.replace(/<\/(p|div|section|article|ul|ol|table|tr|blockquote|pre)>/gi, '\n\n')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+			if (code.startsWith('#')) {
+				const hex = code[1] === 'x' || code[1] === 'X';
+				// Una referencia inválida (&#ab;, &#99999999;) se deja tal cual: fromCodePoint lanzaría RangeError
+				const codePoint = hex ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+				return Number.isInteger(codePoint) && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+			}
+			return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+		})
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+// Aplana el JSON en líneas "ruta: valor" para que las claves también sean buscables
+export function jsonToText(value: unknown, path = ''): string {
+	if (value === null || value === undefined) return '';
+	if (typeof value !== 'object') {
+		return path ? `${path}: ${value}` : String(value);
+	}
+
+	const entries = Array.isArray(value)
+		? value.map((item, index) => [`${path}[${index}]`, item] as const)
+		: Object.entries(value).map(([key, item]) => [path ? `${path}.${key}` : key, item] as const);
+
+	return entries
+		.map(([childPath, item]) => jsonToText(item, childPath))
+		.filter(line => line.length > 0)
+		.join('\n');
+}
+
+/**
+ * Extrae la capa de texto de un PDF leyendo los operadores Tj/TJ de sus
+ * content streams (descomprimiendo FlateDecode). No hace OCR ni resuelve
+ * fuentes CID, así que los PDFs escaneados devuelven texto vacío.
+ */
+export async function pdfToText(bytes: Uint8Array): Promise<string> {
+	const raw = latin1(bytes);
+	const pages: string[] = [];
+	const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+
+	for (const match of raw.matchAll(streamPattern)) {
+		const dictionary = match[1];
+		if (/\/Subtype\s*\/Image|\/Type\s*\/XObject|\/Length1|\/FontFile/.test(dictionary)) continue;
+
+		const start = (match.index ?? 0) + match[0].length;
+		const end = raw.indexOf('endstream', start);
+		if (end < 0) break;
+
+		let content = bytes.subarray(start, end);
+		if (/\/FlateDecode/.test(dictionary)) {
+			try {
+				content = await inflate(content);
+			} catch {
+				continue; // Stream corrupto o con otro filtro encadenado
+			}
+		} else if (/\/Filter/.test(dictionary)) {
+			continue;
+		}
+
+		const text = textFromContentStream(latin1(content));
+		if (text.trim()) pages.push(text.trim());
+	}
+
+	return pages.join('\n\n');
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function latin1(bytes: Uint8Array): string {
+	let result = '';
+	for (let i = 0; i < bytes.length; i += 8192) {
+		result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+	}
+	return result;
+}
+
+function textFromContentStream(stream: string): string {
+	const lines: string[] = [];
+	const textBlocks = stream.match(/BT[\s\S]*?ET/g) ?? [];
+
+	for (const block of textBlocks) {
+		let line = '';
+		const operators = /(\[(?:\\.|[^\]])*\])\s*TJ|(\((?:\\.|[^)\\])*\))\s*(?:Tj|'|")|(T\*|T[dDm]\b)/g;
+
+		for (const [, array, literal, move] of block.matchAll(operators)) {
+			if (move) {
+				if (line.trim()) lines.push(line);
+				line = '';
+			} else if (literal) {
+				line += decodePdfString(literal.slice(1, -1));
+			} else if (array) {
+				for (const [, part, kerning] of array.matchAll(/\(((?:\\.|[^)\\])*)\)|(-?\d+(?:\.\d+)?)/g)) {
+					if (part !== undefined) line += decodePdfString(part);
+					// Un kerning muy negativo equivale a un espacio entre palabras
+					else if (kerning && Number(kerning) < -200) line += ' ';
+				}
+			}
+		}
+
+		if (line.trim()) lines.push(line);
+	}
+
+	return lines.join('\n');
+}
+
+function decodePdfString(value: string): string {
+	return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+		switch (escape) {
+			case 'n':
+				return '\n';
+			case 'r':
+				return '\r';
+			case 't':
+				return '\t';
+			case 'b':
+			case 'f':
+				return '';
+			case '(':
+			case ')':
+			case '\\':
+				return escape;
+			default:
+				return String.fromCharCode(parseInt(escape, 8));
+		}
+	});
+}
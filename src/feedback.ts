@@ -0,0 +1,70 @@
+// Valoraciones de las respuestas de /chat, guardadas en la misma instancia de MyAgent que la interacción y copiadas a "analytics"
+import { agentStub, analyticsStub, copyToAnalytics } from './sessions';
+import type { Env, Interaction } from './types';
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+// A partir de esta valoración la respuesta cuenta como satisfactoria
+export const SATISFIED_RATING = 4;
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_CORRECTED_ANSWER_LENGTH = 10000;
+
+export interface FeedbackInput {
+	rating: number; // 1 (mala) a 5 (perfecta)
+	comment?: string;
+	correctedAnswer?: string; // La respuesta que se esperaba, para revisar documentos o prompts
+}
+
+export interface Feedback extends FeedbackInput {
+	interactionId: number;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface SatisfactionSummary {
+	rated: number;
+	averageRating: number | null;
+	satisfaction: number | null; // % de valoraciones >= SATISFIED_RATING
+}
+
+export interface FeedbackStats extends SatisfactionSummary {
+	byRoute: (SatisfactionSummary & { route: string })[];
+	// Documentos que aportaron contexto a las respuestas valoradas, los peor valorados primero
+	bySource: (SatisfactionSummary & { documentId: string; title?: string })[];
+}
+
+export interface RatedInteraction extends Interaction {
+	feedback: Feedback;
+}
+
+// Guarda (o sustituye) la valoración de una interacción; null si la interacción no existe en la sesión
+export async function submitFeedback(env: Env, sessionId: string | undefined, interactionId: number, input: FeedbackInput): Promise<Feedback | null> {
+	const response = await agentStub(env, sessionId).fetch("https://agent.internal/feedback", {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ interactionId, ...input })
+	});
+	if (response.status === 404) return null;
+	if (!response.ok) {
+		throw new Error(`Agent feedback error: ${response.status} - ${await response.text()}`);
+	}
+	const { feedback } = await response.json() as { feedback: Feedback };
+	await copyToAnalytics(env, "/feedback", { sessionId, sessionInteractionId: interactionId, ...input });
+	return feedback;
+}
+
+// Interacciones con valoración <= maxRating, las peores primero, con las fuentes que se recuperaron; sin sesión, las de todo el tenant
+export async function lowestRatedInteractions(env: Env, sessionId: string | undefined, options: { limit?: number; maxRating?: number } = {}): Promise<RatedInteraction[]> {
+	const params = new URLSearchParams();
+	if (options.limit !== undefined) params.set("limit", String(options.limit));
+	if (options.maxRating !== undefined) params.set("maxRating", String(options.maxRating));
+
+	const stub = sessionId ? agentStub(env, sessionId) : analyticsStub(env);
+	const response = await stub.fetch(`https://agent.internal/feedback/lowest?${params}`);
+	if (!response.ok) {
+		throw new Error(`Agent feedback error: ${response.status} - ${await response.text()}`);
+	}
+	const { interactions } = await response.json() as { interactions: RatedInteraction[] };
+	return interactions;
+}
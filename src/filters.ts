@@ -0,0 +1,126 @@
+// Filtros por metadata para /search y /chat
+import type { Env } from './types';
+
+export type FilterValue = string | number | boolean;
+
+export interface FilterOperators {
+	$eq?: FilterValue;
+	$ne?: FilterValue;
+	$in?: FilterValue[];
+	$nin?: FilterValue[];
+	$gt?: FilterValue;
+	$gte?: FilterValue;
+	$lt?: FilterValue;
+	$lte?: FilterValue;
+}
+
+export type FilterCondition = FilterValue | FilterOperators;
+
+// Cada campo es una condición: valor directo (igualdad) u operadores ($in, $gte, ...)
+export type MetadataFilter = Record<string, FilterCondition>;
+
+const OPERATORS = new Set(['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte']);
+const FIELD_PATTERN = /^[\w.]{1,64}$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Campos con metadata index en Vectorize (wrangler vectorize create-metadata-index)
+export const DEFAULT_INDEXED_FIELDS = ['source', 'type'];
+
+export function indexedFields(env: Env): Set<string> {
+	const fields = env.VECTORIZE_INDEXED_FIELDS?.split(',').map(field => field.trim()).filter(Boolean);
+	return new Set(fields ?? DEFAULT_INDEXED_FIELDS);
+}
+
+function isFilterValue(value: unknown): value is FilterValue {
+	return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+// Devuelve el primer error del filtro o null si es válido
+export function validateFilter(filter: unknown): string | null {
+	if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+		return "filter must be an object";
+	}
+
+	for (const [field, condition] of Object.entries(filter)) {
+		if (!FIELD_PATTERN.test(field)) return `Invalid filter field "${field}"`;
+		if (isFilterValue(condition)) continue;
+		if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+			return `Filter for "${field}" must be a value or an operator object`;
+		}
+
+		const entries = Object.entries(condition);
+		if (entries.length === 0) return `Filter for "${field}" has no operators`;
+
+		for (const [operator, value] of entries) {
+			if (!OPERATORS.has(operator)) return `Unsupported operator "${operator}" on "${field}"`;
+			if (operator === '$in' || operator === '$nin') {
+				if (!Array.isArray(value) || value.length === 0 || !value.every(isFilterValue)) {
+					return `${operator} on "${field}" must be a non-empty array of values`;
+				}
+			} else if (!isFilterValue(value)) {
+				return `${operator} on "${field}" must be a string, number or boolean`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Separa el filtro en la parte que Vectorize puede resolver (campos con
+ * metadata index) y la parte que hay que aplicar después sobre los matches.
+ */
+export function splitFilter(filter: MetadataFilter, indexed: Set<string>): { vectorize?: MetadataFilter; post?: MetadataFilter } {
+	const vectorize: MetadataFilter = {};
+	const post: MetadataFilter = {};
+
+	for (const [field, condition] of Object.entries(filter)) {
+		(indexed.has(field) ? vectorize : post)[field] = condition;
+	}
+
+	return {
+		vectorize: Object.keys(vectorize).length > 0 ? vectorize : undefined,
+		post: Object.keys(post).length > 0 ? post : undefined
+	};
+}
+
+// Las fechas ISO se comparan como instantes; el resto, por su valor
+function compare(a: FilterValue, b: FilterValue): number {
+	if (typeof a === 'string' && typeof b === 'string' && ISO_DATE_PATTERN.test(a) && ISO_DATE_PATTERN.test(b)) {
+		return Date.parse(a) - Date.parse(b);
+	}
+	if (typeof a === 'number' && typeof b === 'number') return a - b;
+	return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matchesCondition(value: VectorizeVectorMetadata | undefined, condition: FilterCondition): boolean {
+	if (isFilterValue(condition)) return value === condition;
+
+	const scalar = isFilterValue(value) ? value : undefined;
+	return Object.entries(condition).every(([operator, expected]) => {
+		switch (operator) {
+			case '$eq':
+				return scalar === expected;
+			case '$ne':
+				return scalar !== expected;
+			case '$in':
+				return scalar !== undefined && (expected as FilterValue[]).includes(scalar);
+			case '$nin':
+				return scalar === undefined || !(expected as FilterValue[]).includes(scalar);
+			case '$gt':
+				return scalar !== undefined && compare(scalar, expected as FilterValue) > 0;
+			case '$gte':
+				return scalar !== undefined && compare(scalar, expected as FilterValue) >= 0;
+			case '$lt':
+				return scalar !== undefined && compare(scalar, expected as FilterValue) < 0;
+			case '$lte':
+				return scalar !== undefined && compare(scalar, expected as FilterValue) <= 0;
+			default:
+				return false;
+		}
+	});
+}
+
+export function matchesFilter(metadata: Record<string, VectorizeVectorMetadata> | undefined, filter: MetadataFilter): boolean {
+	return Object.entries(filter).every(([field, condition]) => matchesCondition(metadata?.[field], condition));
+}
@@ -0,0 +1,253 @@
+// Camino común de indexación: chunking, embeddings y upsert en Vectorize
+import { AnswerCache } from './answer-cache';
+import { chunkDocument, type ChunkOptions, type DocumentChunk } from './chunking';
+import { KeywordIndex } from './keyword-index';
+import { DocumentRegistry, type DocumentRecord } from './registry';
+import { createEmbeddingProvider, embedTexts, embeddingModelId } from './embeddings';
+import type { Env } from './types';
+
+export interface IndexableDocument {
+	id?: string; // Si no se indica, se deriva del hash del contenido
+	content: string;
+	title?: string;
+	source?: string;
+	r2Key?: string; // Archivo original en R2
+	contentType?: string;
+}
+
+export interface IndexOptions {
+	force?: boolean; // Re-embeber aunque el contenido no haya cambiado
+}
+
+export type IndexStatus = 'created' | 'updated' | 'unchanged';
+
+export interface IndexedDocument {
+	id: string;
+	title?: string;
+	chunks: number;
+	r2Key?: string;
+	status: IndexStatus;
+}
+
+export interface IndexingResult {
+	documents: IndexedDocument[];
+	vectors: number;
+}
+
+// Vectores por llamada a upsert del binding de Vectorize
+const VECTORIZE_MAX_UPSERT = 1000;
+
+// Los IDs de chunk son `${id}#${index}` y Vectorize admite como máximo 64 bytes
+const DOCUMENT_ID_PATTERN = /^[\w.:\-]{1,48}$/;
+
+export function isValidDocumentId(id: string): boolean {
+	return DOCUMENT_ID_PATTERN.test(id);
+}
+
+export function documentKey(id: string, filename: string): string {
+	return `documents/${id}/${filename.replace(/[^\w.\-]+/g, '_')}`;
+}
+
+export function chunkVectorIds(id: string, from: number, to: number): string[] {
+	return Array.from({ length: Math.max(0, to - from) }, (_, offset) => `${id}#${from + offset}`);
+}
+
+export async function contentHash(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// ID estable: el indicado por el cliente o uno derivado del contenido
+export async function resolveDocumentId(content: string, id?: string): Promise<string> {
+	return id ?? `doc-${(await contentHash(content)).slice(0, 16)}`;
+}
+
+/**
+ * Upsert idempotente de documentos: guarda el original en R2 (si aún no
+ * está), indexa sus chunks y actualiza el registro. Un documento con el
+ * mismo ID, contenido, título, fuente, archivo en R2, opciones de chunking
+ * y modelo de embeddings no se vuelve a embeber; si el
+ * nuevo contenido tiene menos chunks se borran los vectores sobrantes.
+ */
+export async function indexDocuments(
+	env: Env,
+	documents: IndexableDocument[],
+	chunkOptions: Required<ChunkOptions>,
+	options: IndexOptions = {}
+): Promise<IndexingResult> {
+	const registry = new DocumentRegistry(env);
+
+	// Dentro de un mismo lote gana la última versión de cada ID
+	const byId = new Map<string, IndexableDocument & { id: string; hash: string; chunks: DocumentChunk[] }>();
+	for (const doc of documents) {
+		const hash = await contentHash(doc.content);
+		const id = await resolveDocumentId(doc.content, doc.id);
+		byId.set(id, { ...doc, id, hash, chunks: chunkDocument(doc.content, chunkOptions) });
+	}
+
+	const parents = [...byId.values()].filter(parent => parent.chunks.length > 0);
+	if (parents.length === 0) {
+		return { documents: [], vectors: 0 };
+	}
+
+	const previous = await registry.getMany(parents.map(parent => parent.id));
+	const embeddingModel = embeddingModelId(createEmbeddingProvider(env));
+	const isUnchanged = (parent: (typeof parents)[number]) => {
+		const record = previous.get(parent.id);
+		return !options.force
+			&& record !== undefined
+			&& record.contentHash === parent.hash
+			&& record.chunkSize === chunkOptions.chunkSize
+			&& record.chunkOverlap === chunkOptions.chunkOverlap
+			&& record.embeddingModel === embeddingModel
+			// El título y la fuente van en los metadatos de cada vector (filtros y citas): cambiarlos también reindexa
+			&& record.title === parent.title
+			&& record.source === parent.source
+			// Un archivo subido con otro nombre cambia de clave en R2: se reindexa para apuntar a ella y borrar la anterior
+			&& (parent.r2Key === undefined || parent.r2Key === record.r2Key);
+	};
+	const changed = parents.filter(parent => !isUnchanged(parent));
+
+	// Los documentos insertados como JSON también quedan en R2 como texto plano
+	await Promise.all(changed.filter(parent => !parent.r2Key).map(async parent => {
+		parent.r2Key = documentKey(parent.id, 'content.txt');
+		await env.R2_BUCKET.put(parent.r2Key, parent.content, {
+			httpMetadata: { contentType: 'text/plain; charset=utf-8' },
+			customMetadata: { documentId: parent.id, title: parent.title ?? "" }
+		});
+	}));
+
+	const chunks = changed.flatMap(parent => parent.chunks.map(chunk => ({ parent, chunk })));
+	let vectorCount = 0;
+
+	if (chunks.length > 0) {
+		// Generate embeddings for all chunks
+		const { vectors: embeddings } = await embedTexts(env, chunks.map(({ chunk }) => chunk.text));
+
+		// Create vectors with metadata
+		const timestamp = new Date().toISOString();
+		const vectors: VectorizeVector[] = embeddings.map((vector, index) => {
+			const { parent, chunk } = chunks[index];
+			return {
+				id: `${parent.id}#${chunk.index}`,
+				values: vector,
+				metadata: {
+					content: chunk.text,
+					title: parent.title ?? parent.id,
+					source: parent.source ?? 'manual_insert',
+					timestamp,
+					type: 'document',
+					embeddingModel,
+					parentId: parent.id,
+					chunkIndex: chunk.index,
+					chunkCount: parent.chunks.length,
+					charStart: chunk.start,
+					charEnd: chunk.end,
+					...(chunk.heading ? { section: chunk.heading } : {}),
+					...(parent.r2Key ? { r2Key: parent.r2Key } : {}),
+					...(parent.contentType ? { contentType: parent.contentType } : {})
+				}
+			};
+		});
+
+		for (let start = 0; start < vectors.length; start += VECTORIZE_MAX_UPSERT) {
+			await env.VECTORIZE.upsert(vectors.slice(start, start + VECTORIZE_MAX_UPSERT));
+		}
+		vectorCount = vectors.length;
+
+		// Mantener el índice de palabras clave sincronizado con Vectorize
+		const keywordIndex = new KeywordIndex(env);
+		for (const parent of changed) {
+			const ownVectors = vectors.filter(vector => vector.metadata?.parentId === parent.id);
+			await keywordIndex.replaceDocument(parent.id, ownVectors.map(vector => ({
+				id: vector.id,
+				content: String(vector.metadata?.content ?? ""),
+				title: parent.title,
+				metadata: vector.metadata ?? {}
+			})));
+		}
+	}
+
+	// Limpiar vectores y archivos que ya no corresponden a la nueva versión
+	const staleVectorIds = changed.flatMap(parent =>
+		chunkVectorIds(parent.id, parent.chunks.length, previous.get(parent.id)?.chunkCount ?? 0)
+	);
+	if (staleVectorIds.length > 0) {
+		await env.VECTORIZE.deleteByIds(staleVectorIds);
+	}
+	const staleKeys = changed
+		.map(parent => previous.get(parent.id)?.r2Key)
+		.filter((key, index): key is string => key !== undefined && key !== changed[index].r2Key);
+	if (staleKeys.length > 0) {
+		await env.R2_BUCKET.delete(staleKeys);
+	}
+
+	const now = new Date().toISOString();
+	for (const parent of changed) {
+		await registry.put({
+			id: parent.id,
+			title: parent.title,
+			source: parent.source,
+			r2Key: parent.r2Key,
+			contentType: parent.contentType,
+			contentHash: parent.hash,
+			chunkCount: parent.chunks.length,
+			chunkSize: chunkOptions.chunkSize,
+			chunkOverlap: chunkOptions.chunkOverlap,
+			embeddingModel,
+			createdAt: previous.get(parent.id)?.createdAt ?? now,
+			updatedAt: now
+		});
+	}
+
+	// Las respuestas cacheadas con la versión anterior ya no valen; un documento nuevo puede responder lo que antes no tenía contexto
+	if (changed.length > 0) {
+		await invalidateCachedAnswers(env, changed.filter(parent => previous.has(parent.id)).map(parent => parent.id), {
+			ungrounded: changed.some(parent => !previous.has(parent.id))
+		});
+	}
+
+	return {
+		documents: parents.map(parent => {
+			const record = previous.get(parent.id);
+			const status: IndexStatus = !record ? 'created' : isUnchanged(parent) ? 'unchanged' : 'updated';
+			return {
+				id: parent.id,
+				title: parent.title,
+				chunks: parent.chunks.length,
+				r2Key: parent.r2Key ?? record?.r2Key,
+				status
+			};
+		}),
+		vectors: vectorCount
+	};
+}
+
+// El documento ya está indexado: si la caché no responde se registra el error en lugar de fallar la petición
+async function invalidateCachedAnswers(env: Env, documentIds: string[], options: { ungrounded?: boolean } = {}): Promise<void> {
+	try {
+		await new AnswerCache(env).invalidate(documentIds, options);
+	} catch (error) {
+		console.error("Failed to invalidate cached answers:", error);
+	}
+}
+
+// Borra los vectores, el original en R2, sus chunks del índice de palabras clave y la entrada del registro
+export async function deleteDocument(env: Env, id: string): Promise<DocumentRecord | null> {
+	const registry = new DocumentRegistry(env);
+	const record = await registry.get(id);
+	if (!record) return null;
+
+	const vectorIds = chunkVectorIds(id, 0, record.chunkCount);
+	if (vectorIds.length > 0) {
+		await env.VECTORIZE.deleteByIds(vectorIds);
+	}
+	if (record.r2Key) {
+		await env.R2_BUCKET.delete(record.r2Key);
+	}
+	await new KeywordIndex(env).deleteDocument(id);
+	await registry.delete(id);
+	await invalidateCachedAnswers(env, [id]);
+
+	return record;
+}
@@ -0,0 +1,194 @@
+// Ingesta masiva asíncrona: los documentos se guardan en un job y MyAgent los indexa en segundo plano, por lotes, con alarmas
+import { chunkDocument, type ChunkOptions } from './chunking';
+import { createEmbeddingProvider } from './embeddings';
+import { indexDocuments } from './indexing';
+import { localEnv } from './local';
+import { tenantEnv } from './tenants';
+import type { Env } from './types';
+import { UsageMeter, UsageStore } from './usage';
+
+// Instancia de MyAgent con los jobs (una por tenant, vía tenantEnv)
+export const JOBS_AGENT = "ingestion-jobs";
+
+export const MAX_JOB_DOCUMENTS = 1000;
+// Cada documento pendiente ocupa una fila del SQLite del Durable Object, que admite hasta 2 MB
+export const MAX_JOB_DOCUMENT_BYTES = 1_000_000;
+// El worker lee, valida y reenvía el job entero al Durable Object: el cuerpo de POST /jobs tiene que caber holgado en memoria
+export const MAX_JOB_BYTES = 5_000_000;
+// Documentos pendientes que se leen por alarma; el lote real lo decide ingestionBatch
+export const MAX_BATCH_DOCUMENTS = 100;
+// Intentos automáticos por documento ante errores transitorios; después solo queda POST /jobs/:id/retry
+export const MAX_JOB_ATTEMPTS = 3;
+const JOB_RETRY_DELAY_MS = 10_000;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'completed_with_errors';
+export type JobDocumentStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface JobDocumentInput {
+	id: string; // Resuelto al crear el job, así el estado identifica cada documento
+	content: string;
+	title?: string;
+	source?: string;
+}
+
+export interface JobInput {
+	id: string;
+	tenantId: string;
+	chunkOptions: Required<ChunkOptions>;
+	documents: JobDocumentInput[];
+}
+
+export interface JobDocument {
+	index: number; // Posición en la petición
+	id: string;
+	title?: string;
+	status: JobDocumentStatus;
+	attempts: number;
+	chunks?: number;
+	error?: string; // Error del último intento
+	retryAt?: string; // Próximo intento automático de un documento pendiente que falló
+}
+
+export interface JobProgress {
+	total: number;
+	processed: number; // Indexados o fallidos
+	succeeded: number;
+	failed: number;
+	pending: number;
+	percent: number;
+}
+
+export interface IngestionJob {
+	id: string;
+	status: JobStatus;
+	chunkSize: number;
+	chunkOverlap: number;
+	progress: JobProgress;
+	chunks: number; // Chunks indexados hasta ahora
+	documents: JobDocument[];
+	createdAt: string;
+	updatedAt: string;
+	completedAt?: string;
+	error?: string; // Último error al preparar un lote (p. ej. un proveedor de embeddings mal configurado)
+}
+
+// Documento pendiente tal como lo guarda el Durable Object
+export interface PendingJobDocument extends JobDocumentInput {
+	index: number;
+}
+
+export interface JobDocumentResult {
+	index: number;
+	status: 'succeeded' | 'failed';
+	chunks?: number;
+	error?: string;
+	retryable?: boolean; // El fallo puede ser transitorio: se vuelve a intentar mientras queden intentos
+}
+
+// Backoff exponencial entre intentos automáticos: 10 s, 20 s, 40 s...
+export function jobRetryDelay(attempts: number): number {
+	return JOB_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * Env con el que MyAgent indexa un job fuera de la petición que lo creó: el
+ * del tenant (en modo local, con los sustitutos locales) y con el uso de
+ * modelos cargado a /jobs.
+ */
+export function ingestionEnv(env: Env, tenantId: string, ctx: Pick<ExecutionContext, 'waitUntil'>): Env {
+	const scoped = tenantEnv(localEnv(env), tenantId);
+	return { ...scoped, USAGE: new UsageMeter(new UsageStore(scoped), ctx, "/jobs") };
+}
+
+/**
+ * Primeros documentos pendientes cuyos chunks caben en una llamada al modelo
+ * de embeddings. Un documento que por sí solo no cabe forma su propio lote:
+ * embedTexts lo reparte en varias llamadas.
+ */
+export function ingestionBatch(env: Env, pending: PendingJobDocument[], chunkOptions: Required<ChunkOptions>): PendingJobDocument[] {
+	const maxChunks = createEmbeddingProvider(env).maxBatchSize;
+	const batch: PendingJobDocument[] = [];
+	let chunks = 0;
+	for (const document of pending) {
+		const count = chunkDocument(document.content, chunkOptions).length;
+		if (batch.length > 0 && chunks + count > maxChunks) break;
+		batch.push(document);
+		chunks += count;
+	}
+	return batch;
+}
+
+/**
+ * Indexa un lote. Si falla, se indexa cada documento por separado para
+ * atribuir el error al documento que lo provoca y no perder los demás.
+ * Las excepciones (timeouts, throttling, errores del modelo o de Vectorize)
+ * no dicen si son transitorias, así que se tratan como reintentables; un
+ * documento sin contenido indexable no lo es.
+ */
+export async function runIngestionBatch(env: Env, batch: PendingJobDocument[], chunkOptions: Required<ChunkOptions>): Promise<JobDocumentResult[]> {
+	try {
+		const { documents } = await indexDocuments(env, batch, chunkOptions);
+		const chunks = new Map(documents.map(document => [document.id, document.chunks]));
+		return batch.map(document => chunks.has(document.id)
+			? { index: document.index, status: 'succeeded', chunks: chunks.get(document.id) }
+			: { index: document.index, status: 'failed', error: "Document has no content to index" }
+		);
+	} catch (error) {
+		if (batch.length === 1) {
+			return [{ index: batch[0].index, status: 'failed', error: error instanceof Error ? error.message : String(error), retryable: true }];
+		}
+		const results: JobDocumentResult[] = [];
+		for (const document of batch) {
+			results.push(...await runIngestionBatch(env, [document], chunkOptions));
+		}
+		return results;
+	}
+}
+
+export class IngestionJobs {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(JOBS_AGENT));
+	}
+
+	// Guarda el job y programa su procesamiento
+	async create(input: JobInput): Promise<IngestionJob> {
+		const { job } = await this.call<{ job: IngestionJob }>("/jobs", {
+			method: "POST",
+			body: JSON.stringify(input)
+		});
+		return job;
+	}
+
+	async get(id: string): Promise<IngestionJob | null> {
+		const response = await this.stub.fetch(`https://agent.internal/jobs/${encodeURIComponent(id)}`);
+		if (response.status === 404) return null;
+		if (!response.ok) {
+			throw new Error(`Ingestion jobs error: ${response.status} - ${await response.text()}`);
+		}
+		const { job } = await response.json() as { job: IngestionJob };
+		return job;
+	}
+
+	// Vuelve a poner en cola los documentos fallidos; null si el job no existe
+	async retry(id: string): Promise<{ job: IngestionJob; retried: number } | null> {
+		const response = await this.stub.fetch(`https://agent.internal/jobs/${encodeURIComponent(id)}/retry`, { method: "POST" });
+		if (response.status === 404) return null;
+		if (!response.ok) {
+			throw new Error(`Ingestion jobs error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<{ job: IngestionJob; retried: number }>;
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Ingestion jobs error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
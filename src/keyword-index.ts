@@ -0,0 +1,70 @@
+// Cliente del índice de palabras clave (FTS5/BM25) que vive junto al registro de documentos
+import { KNOWLEDGE_BASE_AGENT } from './registry';
+import type { Env } from './types';
+
+export interface KeywordChunk {
+	id: string; // Mismo ID que el vector del chunk en Vectorize
+	content: string;
+	title?: string;
+	metadata: Record<string, VectorizeVectorMetadata>;
+}
+
+export interface KeywordMatch {
+	id: string;
+	score: number; // BM25 normalizado: mayor es mejor
+	metadata: Record<string, VectorizeVectorMetadata>;
+}
+
+/**
+ * Convierte la pregunta en una consulta FTS5 segura: cada término va entre
+ * comillas (así "AB-123" se busca como frase) y se combinan con OR para que
+ * BM25 premie los chunks que contienen más términos.
+ */
+export function toFtsQuery(query: string): string | null {
+	const terms = query
+		.split(/\s+/)
+		.map(term => term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ""))
+		.filter(term => term.length > 0);
+	if (terms.length === 0) return null;
+
+	return terms.map(term => `"${term.replace(/"/g, '""')}"`).join(" OR ");
+}
+
+export class KeywordIndex {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(KNOWLEDGE_BASE_AGENT));
+	}
+
+	// Sustituye todos los chunks indexados de un documento
+	async replaceDocument(documentId: string, chunks: KeywordChunk[]): Promise<void> {
+		await this.call(`/keyword/${encodeURIComponent(documentId)}`, {
+			method: "PUT",
+			body: JSON.stringify({ chunks })
+		});
+	}
+
+	async deleteDocument(documentId: string): Promise<void> {
+		await this.call(`/keyword/${encodeURIComponent(documentId)}`, { method: "DELETE" });
+	}
+
+	async search(query: string, limit: number): Promise<KeywordMatch[]> {
+		const { matches } = await this.call<{ matches: KeywordMatch[] }>("/keyword/search", {
+			method: "POST",
+			body: JSON.stringify({ query, limit })
+		});
+		return matches;
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Keyword index error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
@@ -0,0 +1,95 @@
+// Detección del idioma de la pregunta para responder en el mismo idioma
+import type { Env } from './types';
+
+export type LanguageCode = 'es' | 'en' | 'pt';
+
+export const SUPPORTED_LANGUAGES: LanguageCode[] = ['es', 'en', 'pt'];
+
+export interface Language {
+	code: LanguageCode;
+	name: string;
+	detected: boolean; // false si se usó el idioma por defecto o el de la petición
+}
+
+interface LanguageProfile {
+	name: string;
+	stopwords: string[];
+	// Caracteres o palabras que casi solo aparecen en este idioma (¿ ñ en español, ã õ en portugués)
+	markers?: RegExp;
+	replyInstruction: string;
+	noContextAnswer: string;
+	emptyAnswer: string;
+}
+
+const PROFILES: Record<LanguageCode, LanguageProfile> = {
+	es: {
+		name: "español",
+		stopwords: ['el', 'la', 'los', 'las', 'de', 'del', 'que', 'qué', 'y', 'en', 'un', 'una', 'es', 'por', 'para', 'con', 'cómo', 'cuál', 'cuáles', 'dónde', 'cuándo', 'sobre', 'puedo', 'hay', 'se', 'mi', 'me', 'su', 'al', 'lo', 'pero', 'está', 'son', 'tiene'],
+		markers: /[ñ¿¡]/,
+		replyInstruction: "Responde siempre en español.",
+		noContextAnswer: "No pude encontrar información relevante en la base de conocimientos.",
+		emptyAnswer: "No pude generar una respuesta."
+	},
+	en: {
+		name: "English",
+		stopwords: ['the', 'of', 'and', 'to', 'in', 'is', 'are', 'what', 'how', 'which', 'where', 'when', 'why', 'does', 'do', 'can', 'for', 'with', 'about', 'this', 'that', 'it', 'my', 'i', 'you', 'on', 'be', 'there', 'an', 'should'],
+		replyInstruction: "Always answer in English, the language of the question.",
+		noContextAnswer: "I couldn't find relevant information in the knowledge base.",
+		emptyAnswer: "I couldn't generate an answer."
+	},
+	pt: {
+		name: "português",
+		stopwords: ['o', 'a', 'os', 'as', 'de', 'do', 'da', 'dos', 'das', 'que', 'e', 'em', 'no', 'na', 'um', 'uma', 'é', 'para', 'com', 'como', 'qual', 'quais', 'onde', 'quando', 'sobre', 'posso', 'não', 'meu', 'minha', 'você', 'são', 'tem', 'pelo', 'pela'],
+		markers: /[ãõç]|\bvocês?\b/,
+		replyInstruction: "Responda sempre em português, o idioma da pergunta.",
+		noContextAnswer: "Não encontrei informações relevantes na base de conhecimento.",
+		emptyAnswer: "Não consegui gerar uma resposta."
+	}
+};
+
+// Con menos coincidencias que esto la detección no es fiable y se usa el idioma por defecto
+const MIN_DETECTION_SCORE = 2;
+
+export function isSupportedLanguage(value: unknown): value is LanguageCode {
+	return SUPPORTED_LANGUAGES.includes(value as LanguageCode);
+}
+
+export function defaultLanguage(env: Env): LanguageCode {
+	return isSupportedLanguage(env.DEFAULT_LANGUAGE) ? env.DEFAULT_LANGUAGE : 'es';
+}
+
+export function languageProfile(code: LanguageCode): LanguageProfile {
+	return PROFILES[code];
+}
+
+/**
+ * Detecta el idioma contando palabras funcionales de cada perfil; los
+ * caracteres exclusivos (ñ, ¿, ã, ç...) suman doble. Las preguntas cortas o
+ * ambiguas ("ok", nombres propios) caen en DEFAULT_LANGUAGE.
+ */
+export function detectLanguage(env: Env, text: string, requested?: LanguageCode): Language {
+	if (requested) {
+		return { code: requested, name: PROFILES[requested].name, detected: false };
+	}
+
+	const lower = text.toLowerCase();
+	const words = lower.match(/[\p{L}]+/gu) ?? [];
+
+	let best: LanguageCode | null = null;
+	let bestScore = 0;
+	for (const code of SUPPORTED_LANGUAGES) {
+		const profile = PROFILES[code];
+		let score = words.filter(word => profile.stopwords.includes(word)).length;
+		if (profile.markers?.test(lower)) score += 2;
+		if (score > bestScore) {
+			best = code;
+			bestScore = score;
+		}
+	}
+
+	if (!best || bestScore < MIN_DETECTION_SCORE) {
+		const code = defaultLanguage(env);
+		return { code, name: PROFILES[code].name, detected: false };
+	}
+	return { code: best, name: PROFILES[best].name, detected: true };
+}
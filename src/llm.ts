@@ -0,0 +1,477 @@
+// Proveedores de chat intercambiables (Azure OpenAI, Workers AI, endpoints compatibles con OpenAI, local) con reintentos y fallback
+import { LocalChatProvider } from './local';
+import { readSSEData } from './streaming';
+import { traced } from './tracing';
+import type { AzureOpenAIResponse, ChatMessage, Env, TokenUsage } from './types';
+import { recordChatUsage } from './usage';
+
+export const DEFAULT_WORKERS_AI_CHAT_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const DEFAULT_CHAT_PROVIDERS = "azure-openai";
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// Backoff exponencial: 500 ms, 1 s, 2 s... con jitter y un máximo por espera
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+// Si el proveedor pide esperar más que esto, se pasa al siguiente de la cadena
+const MAX_RETRY_AFTER_MS = 10_000;
+
+export interface ChatParams {
+	temperature?: number;
+	max_tokens?: number;
+	top_p?: number;
+	response_format?: { type: 'json_object' }; // Salida JSON garantizada (el prompt debe mencionar JSON)
+}
+
+export interface ChatCompletion {
+	content: string;
+	finishReason?: string;
+	usage?: TokenUsage;
+	provider: string; // Proveedor y modelo que respondieron realmente
+	model: string;
+}
+
+export type CompletionChunk =
+	| { type: 'provider'; provider: string; model: string }
+	| { type: 'delta'; content: string }
+	| { type: 'usage'; usage: TokenUsage }
+	| { type: 'finish'; reason: string };
+
+// Function calling con el formato de OpenAI (Azure y endpoints compatibles)
+export interface ToolDefinition {
+	type: 'function';
+	function: {
+		name: string;
+		description: string;
+		parameters: Record<string, unknown>; // JSON Schema de los argumentos
+	};
+}
+
+export interface ToolCall {
+	id: string;
+	type: 'function';
+	function: {
+		name: string;
+		arguments: string; // JSON generado por el modelo
+	};
+}
+
+export type AgentMessage =
+	| ChatMessage
+	| { role: 'assistant'; content: string | null; tool_calls: ToolCall[] }
+	| { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ToolCompletion extends ChatCompletion {
+	toolCalls: ToolCall[];
+}
+
+export interface ToolParams extends ChatParams {
+	tool_choice?: 'auto' | 'none';
+}
+
+export interface ChatProvider {
+	readonly name: string;
+	readonly model: string;
+	complete(messages: ChatMessage[], params: ChatParams, signal: AbortSignal): Promise<ChatCompletion>;
+	// La promesa se resuelve al conectar; después cada lectura de chunks tiene su propio timeout de inactividad
+	stream(messages: ChatMessage[], params: ChatParams, signal: AbortSignal, idleTimeoutMs: number): Promise<AsyncGenerator<CompletionChunk>>;
+	// Solo los proveedores con function calling lo implementan
+	completeWithTools?(messages: AgentMessage[], tools: ToolDefinition[], params: ToolParams, signal: AbortSignal): Promise<ToolCompletion>;
+}
+
+/**
+ * Error de un proveedor. `retryable` distingue throttling, errores 5xx y
+ * timeouts (se reintentan) de errores de la petición.
+ */
+export class ChatProviderError extends Error {
+	constructor(
+		message: string,
+		readonly retryable: boolean,
+		readonly retryAfterMs?: number
+	) {
+		super(message);
+		this.name = "ChatProviderError";
+	}
+}
+
+const DEFAULT_PARAMS: ChatParams = { temperature: 0.7, max_tokens: 300, top_p: 0.9 };
+
+interface OpenAIToolResponse {
+	choices?: {
+		message?: { content?: string | null; tool_calls?: ToolCall[] };
+		finish_reason?: string;
+	}[];
+	usage?: TokenUsage;
+}
+
+interface OpenAIStreamChunk {
+	choices?: {
+		delta?: { content?: string | null };
+		finish_reason?: string | null;
+	}[];
+	usage?: TokenUsage | null;
+}
+
+// Retry-After en segundos o como fecha HTTP; Azure envía además retry-after-ms
+export function parseRetryAfter(headers: Headers): number | undefined {
+	const milliseconds = Number(headers.get("retry-after-ms"));
+	if (milliseconds > 0) return milliseconds;
+
+	const value = headers.get("retry-after");
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+async function responseError(provider: ChatProvider, response: Response): Promise<ChatProviderError> {
+	return new ChatProviderError(
+		`${provider.name} API error: ${response.status} - ${await response.text()}`,
+		isRetryableStatus(response.status),
+		parseRetryAfter(response.headers)
+	);
+}
+
+/**
+ * Cliente de /chat/completions. Azure y cualquier endpoint compatible con
+ * OpenAI usan el mismo formato; solo cambian la URL, la autenticación y si
+ * el modelo va en el cuerpo.
+ */
+export class OpenAICompatibleChatProvider implements ChatProvider {
+	constructor(
+		readonly name: string,
+		readonly model: string,
+		private url: string,
+		private headers: Record<string, string>,
+		private sendModel = true
+	) {}
+
+	private request(messages: AgentMessage[], params: ChatParams, signal: AbortSignal, extra: Record<string, unknown> = {}): Promise<Response> {
+		return fetch(this.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...this.headers },
+			body: JSON.stringify({
+				...(this.sendModel ? { model: this.model } : {}),
+				messages,
+				...DEFAULT_PARAMS,
+				...params,
+				...extra
+			}),
+			signal
+		});
+	}
+
+	async complete(messages: ChatMessage[], params: ChatParams, signal: AbortSignal): Promise<ChatCompletion> {
+		const response = await this.request(messages, params, signal);
+		if (!response.ok) throw await responseError(this, response);
+
+		const completion: AzureOpenAIResponse = await response.json();
+		return {
+			content: completion.choices?.[0]?.message?.content ?? "",
+			finishReason: completion.choices?.[0]?.finish_reason,
+			usage: completion.usage,
+			provider: this.name,
+			model: this.model
+		};
+	}
+
+	async stream(messages: ChatMessage[], params: ChatParams, signal: AbortSignal, idleTimeoutMs: number): Promise<AsyncGenerator<CompletionChunk>> {
+		const response = await this.request(messages, params, signal, { stream: true, stream_options: { include_usage: true } });
+		if (!response.ok || !response.body) throw await responseError(this, response);
+		return openAIStreamChunks(response.body, idleTimeoutMs);
+	}
+
+	async completeWithTools(messages: AgentMessage[], tools: ToolDefinition[], params: ToolParams, signal: AbortSignal): Promise<ToolCompletion> {
+		const { tool_choice = 'auto', ...chatParams } = params;
+		const response = await this.request(messages, chatParams, signal, { tools, tool_choice });
+		if (!response.ok) throw await responseError(this, response);
+
+		const completion: OpenAIToolResponse = await response.json();
+		const choice = completion.choices?.[0];
+		return {
+			content: choice?.message?.content ?? "",
+			toolCalls: choice?.message?.tool_calls ?? [],
+			finishReason: choice?.finish_reason,
+			usage: completion.usage,
+			provider: this.name,
+			model: this.model
+		};
+	}
+}
+
+async function* openAIStreamChunks(body: ReadableStream<Uint8Array>, idleTimeoutMs: number): AsyncGenerator<CompletionChunk> {
+	for await (const data of readSSEData(body, idleTimeoutMs)) {
+		if (data === "[DONE]") return;
+
+		const chunk = JSON.parse(data) as OpenAIStreamChunk;
+		for (const choice of chunk.choices ?? []) {
+			if (choice.delta?.content) {
+				yield { type: 'delta', content: choice.delta.content };
+			}
+			if (choice.finish_reason) {
+				yield { type: 'finish', reason: choice.finish_reason };
+			}
+		}
+		if (chunk.usage) {
+			yield { type: 'usage', usage: chunk.usage };
+		}
+	}
+}
+
+export function azureOpenAIChatProvider(env: Env): ChatProvider {
+	const endpoint = env.AZURE_OPENAI_ENDPOINT.replace(/\/$/, "");
+	return new OpenAICompatibleChatProvider(
+		"azure-openai",
+		env.AZURE_OPENAI_DEPLOYMENT_NAME,
+		`${endpoint}/openai/deployments/${env.AZURE_OPENAI_DEPLOYMENT_NAME}/chat/completions?api-version=${env.AZURE_OPENAI_API_VERSION}`,
+		{ "api-key": env.AZURE_OPENAI_API_KEY || "" },
+		false // El deployment ya identifica el modelo
+	);
+}
+
+/**
+ * Modelos de chat del binding AI. `ai.run` no acepta un AbortSignal: el
+ * timeout de cada intento deja de esperar la respuesta (withTimeout) y pasa
+ * al reintento o al siguiente proveedor, pero la inferencia en curso no se
+ * cancela y se sigue facturando.
+ */
+export class WorkersAIChatProvider implements ChatProvider {
+	readonly name = "workers-ai";
+
+	constructor(private ai: Ai, readonly model: string) {}
+
+	async complete(messages: ChatMessage[], params: ChatParams): Promise<ChatCompletion> {
+		// El modelo es configurable; se tipa como el de referencia porque todos aceptan { messages }
+		const output = await this.ai.run(this.model as typeof DEFAULT_WORKERS_AI_CHAT_MODEL, {
+			messages,
+			...DEFAULT_PARAMS,
+			...params
+		}).catch(workersAIError) as AiTextGenerationOutput & { usage?: TokenUsage };
+
+		return {
+			content: output.response ?? "",
+			usage: output.usage,
+			provider: this.name,
+			model: this.model
+		};
+	}
+
+	async stream(messages: ChatMessage[], params: ChatParams, _signal: AbortSignal, idleTimeoutMs: number): Promise<AsyncGenerator<CompletionChunk>> {
+		const body = await this.ai.run(this.model as typeof DEFAULT_WORKERS_AI_CHAT_MODEL, {
+			messages,
+			...DEFAULT_PARAMS,
+			...params,
+			stream: true
+		}).catch(workersAIError);
+		return workersAIStreamChunks(body, idleTimeoutMs);
+	}
+}
+
+// Códigos de Workers AI que se reintentan: timeout (3007), capacidad agotada (3040) y error interno (3043)
+const WORKERS_AI_RETRYABLE_CODES = new Set(["3007", "3040", "3043"]);
+
+/**
+ * El binding de Workers AI no siempre expone el status HTTP: si el error lo
+ * trae se usa; si no, el código con el que empieza el mensaje
+ * ("3040: Capacity temporarily exceeded..."). Buscar números en cualquier
+ * parte del mensaje confundiría nombres de modelo o recuentos de tokens.
+ */
+function workersAIError(error: unknown): never {
+	const message = error instanceof Error ? error.message : String(error);
+	const status = (error as { status?: unknown } | null)?.status;
+	const code = /^(?:\w+: )?(\d{4}):/.exec(message)?.[1];
+	const retryable = typeof status === 'number'
+		? isRetryableStatus(status)
+		: code !== undefined && WORKERS_AI_RETRYABLE_CODES.has(code);
+	throw new ChatProviderError(`workers-ai error: ${message}`, retryable);
+}
+
+async function* workersAIStreamChunks(body: ReadableStream<Uint8Array>, idleTimeoutMs: number): AsyncGenerator<CompletionChunk> {
+	for await (const data of readSSEData(body, idleTimeoutMs)) {
+		if (data === "[DONE]") break;
+
+		const chunk = JSON.parse(data) as { response?: string; usage?: TokenUsage };
+		if (chunk.response) {
+			yield { type: 'delta', content: chunk.response };
+		}
+		if (chunk.usage) {
+			yield { type: 'usage', usage: chunk.usage };
+		}
+	}
+	yield { type: 'finish', reason: "stop" };
+}
+
+export function createChatProvider(env: Env, name: string): ChatProvider {
+	switch (name) {
+		case "azure-openai":
+			return azureOpenAIChatProvider(env);
+		case "workers-ai":
+			return new WorkersAIChatProvider(env.AI, env.WORKERS_AI_CHAT_MODEL || DEFAULT_WORKERS_AI_CHAT_MODEL);
+		case "openai-compatible":
+			if (!env.OPENAI_COMPATIBLE_BASE_URL || !env.OPENAI_COMPATIBLE_MODEL) {
+				throw new Error("CHAT_PROVIDERS=openai-compatible requires OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL");
+			}
+			return new OpenAICompatibleChatProvider(
+				"openai-compatible",
+				env.OPENAI_COMPATIBLE_MODEL,
+				`${env.OPENAI_COMPATIBLE_BASE_URL.replace(/\/$/, "")}/chat/completions`,
+				env.OPENAI_COMPATIBLE_API_KEY ? { "Authorization": `Bearer ${env.OPENAI_COMPATIBLE_API_KEY}` } : {}
+			);
+		case "local":
+			return new LocalChatProvider(env.LOCAL_CHAT_SCRIPT);
+		default:
+			throw new Error(`Unknown chat provider "${name}" (expected "azure-openai", "workers-ai", "openai-compatible" or "local")`);
+	}
+}
+
+// Cadena de fallback en el orden de CHAT_PROVIDERS
+export function chatProviderChain(env: Env): ChatProvider[] {
+	return (env.CHAT_PROVIDERS || DEFAULT_CHAT_PROVIDERS)
+		.split(',')
+		.map(name => name.trim())
+		.filter(Boolean)
+		.map(name => createChatProvider(env, name));
+}
+
+interface RetryPolicy {
+	timeoutMs: number;
+	maxRetries: number;
+}
+
+function retryPolicy(env: Env): RetryPolicy {
+	const timeoutMs = Number(env.CHAT_TIMEOUT_MS);
+	const maxRetries = Number(env.CHAT_MAX_RETRIES);
+	return {
+		timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+		maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES
+	};
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Ejecuta la llamada abortándola si no termina a tiempo
+async function withTimeout<T>(provider: ChatProvider, timeoutMs: number, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			controller.abort();
+			reject(new ChatProviderError(`${provider.name} timed out after ${timeoutMs}ms`, true));
+		}, timeoutMs);
+	});
+
+	try {
+		return await Promise.race([call(controller.signal), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Reintenta la llamada con backoff exponencial mientras el error sea
+ * reintentable. Respeta Retry-After salvo que supere MAX_RETRY_AFTER_MS: en
+ * ese caso es mejor pasar al siguiente proveedor que esperar.
+ */
+async function withRetries<T>(provider: ChatProvider, policy: RetryPolicy, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await withTimeout(provider, policy.timeoutMs, call);
+		} catch (error) {
+			// Errores de red (fetch rechazado) también se reintentan
+			const retryable = error instanceof ChatProviderError ? error.retryable : true;
+			const retryAfter = error instanceof ChatProviderError ? error.retryAfterMs : undefined;
+			if (!retryable || attempt >= policy.maxRetries || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) {
+				throw error;
+			}
+
+			const backoff = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS) * (0.5 + Math.random() / 2);
+			const delay = retryAfter ?? backoff;
+			console.warn(`${provider.name} attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms:`, error instanceof Error ? error.message : error);
+			await sleep(delay);
+		}
+	}
+}
+
+/**
+ * Recorre la cadena de proveedores hasta que uno responda. Cada proveedor
+ * agota sus reintentos antes de pasar al siguiente.
+ */
+async function firstAvailable<T>(
+	env: Env,
+	call: (provider: ChatProvider, signal: AbortSignal) => Promise<T>,
+	providers = chatProviderChain(env)
+): Promise<T> {
+	const policy = retryPolicy(env);
+	const failures: string[] = [];
+
+	for (const provider of providers) {
+		try {
+			return await withRetries(provider, policy, signal => call(provider, signal));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`Chat provider ${provider.name} (${provider.model}) failed:`, message);
+			failures.push(`${provider.name}: ${message}`);
+		}
+	}
+
+	throw new Error(`All chat providers failed (${failures.join("; ")})`);
+}
+
+export async function completeChat(env: Env, messages: ChatMessage[], params: ChatParams = {}): Promise<ChatCompletion> {
+	const completion = await traced(env, "completion", () => {
+		env.TRACE?.recordPrompt(messages);
+		return firstAvailable(env, (provider, signal) => provider.complete(messages, params, signal));
+	});
+	recordChatUsage(env, completion.provider, completion.model, messages.length, completion.usage);
+	return completion;
+}
+
+// Igual que completeChat, pero solo con los proveedores de la cadena que soportan function calling
+export async function completeChatWithTools(env: Env, messages: AgentMessage[], tools: ToolDefinition[], params: ToolParams = {}): Promise<ToolCompletion> {
+	const providers = chatProviderChain(env).filter(provider => provider.completeWithTools);
+	if (providers.length === 0) {
+		throw new Error("No provider in CHAT_PROVIDERS supports tool calling (use azure-openai or openai-compatible)");
+	}
+	const completion = await traced(env, "completion", () => {
+		env.TRACE?.recordPrompt(messages);
+		return firstAvailable(env, (provider, signal) => provider.completeWithTools!(messages, tools, params, signal), providers);
+	});
+	recordChatUsage(env, completion.provider, completion.model, messages.length, completion.usage);
+	return completion;
+}
+
+/**
+ * Variante en streaming: el fallback solo aplica hasta conectar con un
+ * proveedor, porque después ya se han enviado deltas al cliente. El primer
+ * chunk indica qué proveedor y modelo responden. Un stream que deja de
+ * enviar datos durante CHAT_TIMEOUT_MS termina con un error. El uso se
+ * contabiliza al terminar el stream, aunque el cliente se desconecte antes;
+ * la etapa "completion" dura hasta el último chunk.
+ */
+export async function* streamChatCompletion(env: Env, messages: ChatMessage[], params: ChatParams = {}): AsyncGenerator<CompletionChunk> {
+	const endStage = env.TRACE?.start("completion");
+	env.TRACE?.recordPrompt(messages);
+	try {
+		const { timeoutMs } = retryPolicy(env);
+		const { provider, chunks } = await firstAvailable(env, async (provider, signal) => ({
+			provider,
+			chunks: await provider.stream(messages, params, signal, timeoutMs)
+		}));
+
+		let usage: TokenUsage | undefined;
+		try {
+			yield { type: 'provider', provider: provider.name, model: provider.model };
+			for await (const chunk of chunks) {
+				if (chunk.type === 'usage') usage = chunk.usage;
+				yield chunk;
+			}
+		} finally {
+			recordChatUsage(env, provider.name, provider.model, messages.length, usage);
+		}
+	} finally {
+		endStage?.();
+	}
+}
@@ -0,0 +1,306 @@
+// Modo local (LOCAL_MODE=true): sustitutos deterministas de Workers AI, Vectorize y Azure OpenAI para desarrollar y testear sin red
+import type { EmbeddingProvider } from './embeddings';
+import type { MetadataFilter } from './filters';
+import type { AgentMessage, ChatCompletion, ChatParams, ChatProvider, CompletionChunk, ToolCompletion, ToolDefinition, ToolParams } from './llm';
+import { estimateTokens } from './relevance';
+import type { ChatMessage, Env, TokenUsage } from './types';
+
+// Dimensiones de los vectores del embedder local; el índice local las anuncia en describe()
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+// Textos por llamada del embedder local: pequeño para que el desarrollo local también reparta en lotes
+const LOCAL_EMBEDDING_BATCH_SIZE = 32;
+
+// Instancia de MyAgent que guarda el índice local (compartida por los tenants, que usan namespaces)
+const LOCAL_VECTORS_AGENT = "local-vectors";
+
+// Los scores coseno del embedder por hash son más bajos que los de un modelo real
+const LOCAL_RELEVANCE_THRESHOLD = "0.1";
+
+// Consulta al índice local; el Durable Object la resuelve con similitud coseno exacta
+export interface LocalVectorQuery {
+	vector: number[];
+	topK: number;
+	namespace?: string;
+	filter?: MetadataFilter;
+	returnValues: boolean;
+	returnMetadata: boolean;
+}
+
+// Regla de LOCAL_CHAT_SCRIPT: la primera cuyo `match` encaja con el último mensaje del usuario decide
+interface LocalChatRule {
+	match: RegExp;
+	reply?: string; // Respuesta a las preguntas (RAG, general o agente)
+	route?: 'RAG' | 'GENERAL'; // Decisión del router cuando llega a su paso LLM
+}
+
+export function isLocalMode(env: Env): boolean {
+	return env.LOCAL_MODE === "true";
+}
+
+/**
+ * Sustituye los servicios externos por los locales: embeddings por hash,
+ * índice de vectores en SQLite (MyAgent), reranking con los mismos
+ * embeddings y respuestas de chat guionizadas. Los Durable Objects y R2 ya
+ * funcionan en local con wrangler dev y los tests.
+ */
+export function localEnv(env: Env): Env {
+	if (!isLocalMode(env)) return env;
+	return {
+		...env,
+		AI: new LocalAi() as unknown as Ai,
+		VECTORIZE: new LocalVectorIndex(env) as unknown as Vectorize,
+		EMBEDDING_PROVIDER: "local",
+		CHAT_PROVIDERS: "local",
+		RELEVANCE_THRESHOLD: env.RELEVANCE_THRESHOLD ?? LOCAL_RELEVANCE_THRESHOLD
+	};
+}
+
+// FNV-1a de 32 bits
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Embedding por feature hashing: cada palabra suma ±1 en la dimensión que
+ * le toca por su hash y el vector se normaliza. Textos con palabras en común
+ * tienen similitud coseno positiva; el mismo texto da siempre el mismo vector.
+ */
+export function hashEmbedding(text: string, dimensions = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+	const vector = new Array<number>(dimensions).fill(0);
+	const normalized = text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, "");
+	for (const word of normalized.match(/[\p{L}\p{N}]+/gu) ?? []) {
+		const hash = fnv1a(word);
+		vector[hash % dimensions] += hash >>> 31 ? -1 : 1;
+	}
+
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+	return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+export class HashEmbeddingProvider implements EmbeddingProvider {
+	readonly name = "local";
+	readonly model = `hash-${LOCAL_EMBEDDING_DIMENSIONS}`;
+	readonly dimensions = LOCAL_EMBEDDING_DIMENSIONS;
+	readonly maxBatchSize = LOCAL_EMBEDDING_BATCH_SIZE;
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map(text => hashEmbedding(text, this.dimensions));
+	}
+}
+
+/**
+ * Binding AI local. Solo implementa el reranking (el score es la similitud
+ * de los embeddings por hash); embeddings y chat van por sus proveedores
+ * locales, así que cualquier otra llamada es un error de configuración.
+ */
+export class LocalAi {
+	async run(model: string, inputs: Record<string, unknown>): Promise<unknown> {
+		const { query, contexts } = inputs as { query?: string; contexts?: { text: string }[] };
+		if (typeof query !== 'string' || !Array.isArray(contexts)) {
+			throw new Error(`Workers AI model ${model} is not available in local mode`);
+		}
+
+		const queryVector = hashEmbedding(query);
+		return {
+			response: contexts
+				.map((context, id) => ({ id, score: Math.max(dot(queryVector, hashEmbedding(context.text)), 0) }))
+				.sort((a, b) => b.score - a.score)
+		};
+	}
+}
+
+/**
+ * Índice de vectores con la misma interfaz que Vectorize (las operaciones
+ * que usa el worker), guardado en el SQLite de una instancia de MyAgent.
+ * Las consultas recorren todos los vectores: sirve para desarrollo, no para
+ * índices grandes.
+ */
+export class LocalVectorIndex {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(LOCAL_VECTORS_AGENT));
+	}
+
+	async describe(): Promise<VectorizeIndexInfo> {
+		const { vectorCount } = await this.call<{ vectorCount: number }>("/local-vectors");
+		return { vectorCount, dimensions: LOCAL_EMBEDDING_DIMENSIONS, processedUpToDatetime: Date.now(), processedUpToMutation: 0 };
+	}
+
+	async query(vector: VectorFloatArray | number[], options: VectorizeQueryOptions = {}): Promise<VectorizeMatches> {
+		const query: LocalVectorQuery = {
+			vector: Array.from(vector),
+			topK: options.topK ?? 5,
+			namespace: options.namespace,
+			filter: options.filter as MetadataFilter | undefined,
+			returnValues: options.returnValues ?? false,
+			returnMetadata: options.returnMetadata !== undefined && options.returnMetadata !== false && options.returnMetadata !== "none"
+		};
+		return this.call<VectorizeMatches>("/local-vectors/query", {
+			method: "POST",
+			body: JSON.stringify(query)
+		});
+	}
+
+	async upsert(vectors: VectorizeVector[]): Promise<VectorizeAsyncMutation> {
+		await this.call("/local-vectors/upsert", {
+			method: "POST",
+			body: JSON.stringify({ vectors: vectors.map(vector => ({ ...vector, values: Array.from(vector.values) })) })
+		});
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	async getByIds(ids: string[]): Promise<VectorizeVector[]> {
+		const { vectors } = await this.call<{ vectors: VectorizeVector[] }>("/local-vectors/get", {
+			method: "POST",
+			body: JSON.stringify({ ids })
+		});
+		return vectors;
+	}
+
+	async deleteByIds(ids: string[]): Promise<VectorizeAsyncMutation> {
+		await this.call("/local-vectors/delete", {
+			method: "POST",
+			body: JSON.stringify({ ids })
+		});
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Local vector index error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
+
+function parseScript(script: string | undefined): LocalChatRule[] {
+	if (!script) return [];
+	try {
+		const rules = JSON.parse(script) as { match: string; reply?: string; route?: string }[];
+		return rules.map(rule => ({
+			match: new RegExp(rule.match, 'i'),
+			reply: rule.reply,
+			route: rule.route?.toUpperCase() === 'GENERAL' ? 'GENERAL' : rule.route ? 'RAG' : undefined
+		}));
+	} catch (error) {
+		throw new Error(`LOCAL_CHAT_SCRIPT must be a JSON array of {"match", "reply", "route"} rules: ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+function lastUserMessage(messages: AgentMessage[]): string {
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const message = messages[i];
+		if (message.role === 'user') return message.content;
+	}
+	return "";
+}
+
+// Primera frase del primer pasaje del prompt RAG (ver RAGAgent.ragMessages y formatPassages)
+function firstPassageSentence(prompt: string): string | null {
+	const passage = prompt.match(/^Context information:\n\[\d+\][^\n]*\n([^\n]+)/);
+	if (!passage) return null;
+	const sentence = passage[1].split(/(?<=[.!?])\s+/)[0].trim();
+	return sentence.replace(/[.!?]$/, "");
+}
+
+function usageFor(messages: AgentMessage[], reply: string): TokenUsage {
+	const prompt_tokens = messages.reduce((sum, message) => sum + estimateTokens(message.content ?? ""), 0);
+	const completion_tokens = estimateTokens(reply);
+	return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+/**
+ * Proveedor de chat guionizado. Sin guion responde de forma predecible: el
+ * router elige RAG, con contexto se cita la primera frase del pasaje [1] y
+ * sin contexto se indica que no hay modelo. LOCAL_CHAT_SCRIPT define
+ * respuestas y decisiones de routing por pregunta. En modo agente busca
+ * primero en la base de conocimientos y responde con el resultado.
+ */
+export class LocalChatProvider implements ChatProvider {
+	readonly name = "local";
+	readonly model = "scripted";
+	private rules: LocalChatRule[];
+
+	constructor(script?: string) {
+		this.rules = parseScript(script);
+	}
+
+	async complete(messages: ChatMessage[], params: ChatParams): Promise<ChatCompletion> {
+		return this.completion(messages, this.reply(messages, params));
+	}
+
+	async stream(messages: ChatMessage[], params: ChatParams): Promise<AsyncGenerator<CompletionChunk>> {
+		const reply = this.reply(messages, params);
+		return localStreamChunks(reply, usageFor(messages, reply));
+	}
+
+	async completeWithTools(messages: AgentMessage[], tools: ToolDefinition[], params: ToolParams): Promise<ToolCompletion> {
+		const question = lastUserMessage(messages);
+		const searched = messages.some(message => message.role === 'tool');
+		const search = tools.find(tool => "query" in ((tool.function.parameters.properties ?? {}) as object));
+
+		if (!searched && search && params.tool_choice !== 'none') {
+			return {
+				...this.completion(messages, ""),
+				finishReason: "tool_calls",
+				toolCalls: [{ id: "local-call-1", type: 'function', function: { name: search.function.name, arguments: JSON.stringify({ query: question }) } }]
+			};
+		}
+
+		const result = [...messages].reverse().find(message => message.role === 'tool')?.content;
+		const reply = this.rule(question)?.reply
+			?? (result ? `Knowledge base results: ${result.length > 200 ? result.substring(0, 200) + "..." : result}` : this.reply(messages, params));
+		return { ...this.completion(messages, reply), toolCalls: [] };
+	}
+
+	private rule(text: string): LocalChatRule | undefined {
+		return this.rules.find(rule => rule.match.test(text));
+	}
+
+	private reply(messages: AgentMessage[], params: ChatParams): string {
+		const prompt = lastUserMessage(messages);
+		const rule = this.rule(prompt);
+
+		// Paso LLM del router: pide JSON
+		if (params.response_format?.type === 'json_object') {
+			return JSON.stringify({
+				route: rule?.route ?? 'RAG',
+				confidence: rule?.route ? 0.9 : 0.5,
+				reasoning: rule?.route ? `Local mode: scripted route for /${rule.match.source}/` : "Local mode: undecided questions go to the knowledge base"
+			});
+		}
+
+		if (rule?.reply !== undefined) return rule.reply;
+		const sentence = firstPassageSentence(prompt);
+		if (sentence) return `${sentence} [1].`;
+		return `Local mode has no language model; script this answer with LOCAL_CHAT_SCRIPT. Question: ${prompt}`;
+	}
+
+	private completion(messages: AgentMessage[], content: string): ChatCompletion {
+		return { content, finishReason: "stop", usage: usageFor(messages, content), provider: this.name, model: this.model };
+	}
+}
+
+// Palabra a palabra, como llegarían los deltas de un modelo
+async function* localStreamChunks(reply: string, usage: TokenUsage): AsyncGenerator<CompletionChunk> {
+	for (const word of reply.match(/\S+\s*/g) ?? []) {
+		yield { type: 'delta', content: word };
+	}
+	yield { type: 'usage', usage };
+	yield { type: 'finish', reason: "stop" };
+}
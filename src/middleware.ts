@@ -0,0 +1,124 @@
+// Middleware comunes a todas las rutas: CORS, modo local, trazas, autenticación, tenant, medición de uso y rate limiting
+import type { MiddlewareHandler } from 'hono';
+import { errorJson } from './api';
+import { authenticate, AuthError, hasScope, requiredScope } from './auth';
+import { localEnv } from './local';
+import { meteredRoute, RateLimiter, rateLimitHeaders, rateLimits } from './rate-limit';
+import { corsHeadersFor, defaultCorsOrigins, preflightOrigins, tenantEnv } from './tenants';
+import { REQUEST_ID_HEADER, requestIdFrom, RequestTrace, traced } from './tracing';
+import type { AppEnv } from './types';
+import { UsageMeter, UsageStore } from './usage';
+
+// Rutas sin credenciales: el índice, el health check y la documentación de la API
+export const PUBLIC_PATHS = ["/", "/health", "/docs", "/openapi.json"];
+
+/**
+ * Responde los preflight y añade a todas las respuestas las cabeceras de
+ * responseHeaders (CORS y, en las rutas medidas, rate limit). Hasta conocer
+ * el tenant se usan los orígenes de CORS_ORIGINS.
+ */
+export const cors: MiddlewareHandler<AppEnv> = async (c, next) => {
+	const origin = c.req.header("Origin") ?? null;
+	if (c.req.method === "OPTIONS") {
+		return new Response(null, { headers: corsHeadersFor(preflightOrigins(c.env), origin) });
+	}
+
+	c.set("env", c.env);
+	c.set("auth", null);
+	c.set("responseHeaders", corsHeadersFor(defaultCorsOrigins(c.env), origin));
+
+	await next();
+
+	for (const [name, value] of Object.entries(c.get("responseHeaders"))) {
+		c.res.headers.set(name, value);
+	}
+};
+
+// Con LOCAL_MODE=true los modelos y Vectorize se sustituyen por los locales antes de acotar el env al tenant
+export const localMode: MiddlewareHandler<AppEnv> = async (c, next) => {
+	c.set("env", localEnv(c.get("env")));
+	await next();
+};
+
+/**
+ * Asigna el request ID (el de X-Request-ID si el cliente envía uno válido),
+ * lo devuelve en la respuesta y, al terminar, escribe una línea JSON con el
+ * estado, la duración y el tiempo de cada etapa. En streaming la línea sale
+ * al empezar a responder; la de fin del stream la escribe /chat.
+ */
+export const traceRequest: MiddlewareHandler<AppEnv> = async (c, next) => {
+	const trace = new RequestTrace(requestIdFrom(c.req.raw));
+	c.set("env", { ...c.get("env"), TRACE: trace });
+
+	await next();
+
+	c.res.headers.set(REQUEST_ID_HEADER, trace.requestId);
+	const status = c.res.status;
+	const auth = c.get("auth");
+	trace.log(status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info', "request", {
+		method: c.req.method,
+		path: c.req.path,
+		status,
+		durationMs: trace.elapsedMs(),
+		tenant: auth?.tenant.id,
+		clientId: auth?.clientId,
+		stages: trace.stages()
+	});
+};
+
+/**
+ * Identifica al llamante (API key o JWT), comprueba el scope de la ruta y
+ * deja en `env` los bindings acotados a su tenant, con las llamadas a modelos
+ * cargadas a la ruta HTTP salvo que /chat indique otra (routing, RAG...).
+ */
+export const authenticateRequest: MiddlewareHandler<AppEnv> = async (c, next) => {
+	const path = c.req.path;
+	if (PUBLIC_PATHS.includes(path)) return next();
+
+	let auth;
+	try {
+		auth = await authenticate(c.req.raw, c.env);
+	} catch (error) {
+		if (!(error instanceof AuthError)) throw error;
+		const response = errorJson(error.status, error.message);
+		response.headers.set('WWW-Authenticate', 'Bearer');
+		return response;
+	}
+
+	const scope = requiredScope(c.req.method, path);
+	if (!hasScope(auth.scope, scope)) {
+		return errorJson(403, `This credential has the "${auth.scope}" scope; ${c.req.method} ${path} requires "${scope}"`);
+	}
+
+	// A partir de aquí los bindings solo ven los datos del tenant
+	const env = tenantEnv(c.get("env"), auth.tenant.id);
+	c.set("auth", auth);
+	c.set("responseHeaders", corsHeadersFor(auth.tenant.corsOrigins, c.req.header("Origin") ?? null));
+	c.set("env", { ...env, USAGE: new UsageMeter(new UsageStore(env), c.executionCtx, path.startsWith("/documents/") ? "/documents/:id" : path) });
+
+	await next();
+};
+
+// Las rutas que llaman a modelos consumen del rate limit y de las cuotas del cliente
+export const rateLimit: MiddlewareHandler<AppEnv> = async (c, next) => {
+	const auth = c.get("auth");
+	if (!auth || !meteredRoute(c.req.method, c.req.path)) return next();
+
+	try {
+		const env = c.get("env");
+		const decision = await traced(env, "rate_limit", () => new RateLimiter(env).consume(auth.clientId, auth.keyName, rateLimits(env, auth.limits)));
+		c.set("responseHeaders", { ...c.get("responseHeaders"), ...rateLimitHeaders(decision) });
+		if (!decision.allowed) {
+			return errorJson(429, decision.reason === 'rate' ? "Rate limit exceeded" : `${decision.reason === 'daily' ? "Daily" : "Monthly"} quota exceeded`, undefined, {
+				retryAfterSeconds: decision.retryAfterSeconds,
+				daily: decision.daily,
+				monthly: decision.monthly
+			});
+		}
+	} catch (error) {
+		// Si el Durable Object no responde se deja pasar la petición antes que tirar el servicio
+		console.error("Rate limiter error, allowing request:", error);
+	}
+
+	await next();
+};
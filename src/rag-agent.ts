@@ -0,0 +1,217 @@
+// Agente RAG de /chat: decide la ruta, recupera el contexto y genera la respuesta con citas
+import { buildPassages, formatPassages, markCitedSources, resolveCitations, type Citation, type ContextPassage } from './citations';
+import { defaultLanguage, languageProfile, type LanguageCode } from './language';
+import { completeChat, type ChatCompletion } from './llm';
+import { contextTokenBudget, relevanceThreshold, selectContext, type ContextOptions } from './relevance';
+import { retrieve, type RetrievalMode } from './retrieval';
+import { decideRoute, type RoutingDecision } from './routing';
+import { groupMatchesByParent, type GroupedSource } from './sources';
+import { traced } from './tracing';
+import type { ChatMessage, Env } from './types';
+
+export class RAGAgent {
+	private env: Env;
+
+	constructor(env: Env) {
+		this.env = env;
+	}
+
+	// Decide si la pregunta va por RAG o GENERAL y explica por qué
+	route(question: string, language?: LanguageCode): Promise<RoutingDecision> {
+		return traced(this.env, "routing", () => decideRoute(this.env, question, { language }));
+	}
+
+	// Recupera los chunks relevantes y arma el contexto para el prompt
+	async retrieveContext(question: string, options: ContextOptions = {}, history: ChatMessage[] = []): Promise<{ context: string; passages: ContextPassage[]; sources: GroupedSource[]; retrieval: RetrievalSummary }> {
+		// En preguntas de seguimiento se añade la pregunta anterior para que "¿y el segundo?" tenga con qué buscar
+		const previousQuestion = history.filter(message => message.role === "user").pop()?.content;
+		const query = previousQuestion ? `${previousQuestion}\n${question}` : question;
+
+		// Step 1 & 2: Search for relevant documents (vector, keyword or hybrid) and rerank them
+		const result = await traced(this.env, "retrieval", () => retrieve(this.env, query, { topK: 3, ...options }));
+
+		// Step 3: Keep the chunks above the relevance threshold, within the context token budget
+		const threshold = relevanceThreshold(this.env, result.reranker !== null, options.threshold);
+		const selection = selectContext(result.matches, threshold, contextTokenBudget(this.env, options.contextTokenBudget));
+
+		// Cada pasaje va numerado para que la respuesta pueda citarlo como [n]
+		const passages = buildPassages(selection.used);
+
+		// Los chunks se agrupan de vuelta en su documento de origen
+		const usedIds = new Set(passages.map(passage => passage.chunkId));
+		const sources = groupMatchesByParent(result.matches, 200);
+		for (const chunk of sources.flatMap(source => source.chunks)) {
+			chunk.inContext = usedIds.has(chunk.id);
+		}
+
+		return {
+			context: formatPassages(passages),
+			passages,
+			sources,
+			retrieval: {
+				mode: result.mode,
+				reranker: result.reranker,
+				candidates: result.candidates,
+				threshold,
+				contextTokenBudget: selection.tokenBudget,
+				contextTokens: selection.tokens
+			}
+		};
+	}
+
+	ragMessages(question: string, context: string, history: ChatMessage[] = [], language: LanguageCode = defaultLanguage(this.env)): ChatMessage[] {
+		const prompt = `Context information:
+${context}
+
+Question: ${question}
+
+Please provide a helpful and accurate answer based on the context information above. If the context doesn't contain enough information to answer the question, please say so.
+Each passage of the context starts with its number in brackets. Cite the passages that support each statement right after it, e.g. [1] or [1][3]. Only cite numbers that appear in the context.
+
+Answer:`;
+
+		return [
+			{
+				role: "system",
+				content: `Eres un asistente útil y creativo. Responde de forma clara y detallada basándote en el contexto proporcionado. ${languageProfile(language).replyInstruction}`
+			},
+			// Turnos previos de la sesión para resolver preguntas de seguimiento
+			...history,
+			{
+				role: "user",
+				content: prompt // Fixed: Use the proper prompt with context
+			}
+		];
+	}
+
+	generalMessages(question: string, history: ChatMessage[] = [], language: LanguageCode = defaultLanguage(this.env)): ChatMessage[] {
+		return [
+			{
+				role: "system",
+				content: `Eres un asistente útil y creativo. Responde de forma clara y detallada. ${languageProfile(language).replyInstruction}`
+			},
+			...history,
+			{
+				role: "user",
+				content: question // Fixed: Use the actual question
+			}
+		];
+	}
+
+	/**
+	 * Prepara la respuesta sin llamar al LLM: recupera el contexto (si aplica)
+	 * y construye los mensajes. Si no hay contexto, `messages` es null y se
+	 * responde directamente con `fallbackAnswer`.
+	 */
+	async prepare(question: string, useRAG: boolean, options: ContextOptions = {}, history: ChatMessage[] = [], language: LanguageCode = defaultLanguage(this.env)): Promise<PreparedAnswer> {
+		if (!useRAG) {
+			return { messages: this.generalMessages(question, history, language), passages: [], sources: [], context_used: false };
+		}
+
+		const { context, passages, sources, retrieval } = await this.retrieveContext(question, options, history);
+		if (passages.length === 0) {
+			return {
+				messages: null,
+				fallbackAnswer: languageProfile(language).noContextAnswer,
+				passages,
+				sources,
+				context_used: false,
+				retrieval
+			};
+		}
+
+		return { messages: this.ragMessages(question, context, history, language), passages, sources, context_used: true, retrieval };
+	}
+
+	/**
+	 * Resuelve las citas [n] de la respuesta contra los pasajes del contexto:
+	 * elimina los marcadores inválidos y marca las fuentes citadas.
+	 */
+	cite(answer: string, passages: ContextPassage[], sources: GroupedSource[]): { answer: string; citations: Citation[]; invalidCitations: number[]; citedSources: string[] } {
+		const { answer: cleaned, citations, invalidMarkers } = resolveCitations(answer, passages);
+		if (invalidMarkers.length > 0) {
+			console.warn("Removed citation markers without a matching passage:", invalidMarkers);
+		}
+		markCitedSources(sources, citations);
+
+		return {
+			answer: cleaned,
+			citations,
+			invalidCitations: invalidMarkers,
+			citedSources: sources.filter(source => source.cited).map(source => source.id)
+		};
+	}
+
+	async processWithRAG(question: string, options: ContextOptions = {}, history: ChatMessage[] = [], language: LanguageCode = defaultLanguage(this.env)): Promise<any> {
+		try {
+			const { context, passages, sources, retrieval } = await this.retrieveContext(question, options, history);
+
+			// Step 4: Generate response using LLM with context
+			let answer = languageProfile(language).noContextAnswer;
+			let completion: ChatCompletion | undefined;
+
+			if (passages.length > 0) {
+				completion = await completeChat(this.env, this.ragMessages(question, context, history, language));
+				answer = completion.content || languageProfile(language).emptyAnswer;
+			}
+
+			// Step 5: Map the [n] markers of the answer to their sources
+			return {
+				question,
+				...this.cite(answer, passages, sources),
+				usedRAG: true,
+				sources,
+				context_used: passages.length > 0,
+				retrieval,
+				provider: completion?.provider,
+				model: completion?.model,
+				usage: completion?.usage
+			};
+
+		} catch (error) {
+			console.error("Error in processWithRAG:", error);
+			throw new Error(`RAG processing failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+		}
+	}
+
+	async processGeneral(question: string, history: ChatMessage[] = [], language: LanguageCode = defaultLanguage(this.env)): Promise<any> {
+		try {
+			const completion = await completeChat(this.env, this.generalMessages(question, history, language));
+			const answer = completion.content || languageProfile(language).emptyAnswer;
+
+			return {
+				question,
+				answer,
+				usedRAG: false,
+				sources: [],
+				context_used: false,
+				provider: completion.provider,
+				model: completion.model,
+				usage: completion.usage
+			};
+
+		} catch (error) {
+			console.error("Error in processGeneral:", error);
+			throw new Error(`General processing failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+		}
+	}
+}
+
+export interface PreparedAnswer {
+	messages: ChatMessage[] | null;
+	fallbackAnswer?: string;
+	passages: ContextPassage[];
+	sources: GroupedSource[];
+	context_used: boolean;
+	retrieval?: RetrievalSummary;
+}
+
+// Cómo se obtuvo el contexto de una respuesta RAG
+export interface RetrievalSummary {
+	mode: RetrievalMode;
+	reranker: string | null;
+	candidates: number;
+	threshold: number;
+	contextTokenBudget: number;
+	contextTokens: number;
+}
@@ -0,0 +1,208 @@
+// Rate limiting por cliente (token bucket) y cuotas diarias/mensuales, guardados en el Durable Object MyAgent
+import type { Env } from './types';
+
+// Instancia del Durable Object con los contadores (una por tenant, vía tenantEnv)
+export const RATE_LIMIT_AGENT = "rate-limits";
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+	capacity: 20,
+	refillPerMinute: 30,
+	daily: 1000,
+	monthly: 20000
+};
+
+export interface RateLimits {
+	capacity: number; // Peticiones en ráfaga
+	refillPerMinute: number;
+	daily: number; // 0 = sin cuota
+	monthly: number;
+}
+
+export interface RateLimitState {
+	tokens: number;
+	refilledAt: number; // ms
+	day: string; // YYYY-MM-DD (UTC)
+	dayCount: number;
+	month: string; // YYYY-MM (UTC)
+	monthCount: number;
+	blockedCount: number;
+}
+
+export interface RateLimitCounter extends RateLimitState {
+	clientId: string;
+	label?: string;
+	lastRequestAt?: string;
+}
+
+export interface QuotaUsage {
+	used: number;
+	limit: number;
+	resetSeconds: number;
+}
+
+export interface RateLimitDecision {
+	allowed: boolean;
+	reason?: 'rate' | 'daily' | 'monthly';
+	limit: number;
+	remaining: number;
+	resetSeconds: number; // Hasta que el bucket vuelve a estar lleno, o hasta que se renueva la cuota agotada
+	retryAfterSeconds?: number;
+	daily: QuotaUsage;
+	monthly: QuotaUsage;
+}
+
+// Peticiones que llaman a modelos (chat, embeddings, reranker); el resto no consume
+export function meteredRoute(method: string, path: string): boolean {
+	if (method === "POST") {
+		return ["/chat", "/search", "/insert", "/upload", "/jobs", "/eval", "/agent/test"].includes(path);
+	}
+	return method === "PUT" && path.startsWith("/documents/");
+}
+
+function envNumber(value: string | undefined, fallback: number): number {
+	const parsed = value ? Number(value) : NaN;
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Límites de RATE_LIMIT_* y QUOTA_*, con los de la API key por encima
+export function rateLimits(env: Env, overrides: Partial<RateLimits> = {}): RateLimits {
+	return {
+		capacity: overrides.capacity ?? envNumber(env.RATE_LIMIT_CAPACITY, DEFAULT_RATE_LIMITS.capacity),
+		refillPerMinute: overrides.refillPerMinute ?? envNumber(env.RATE_LIMIT_REFILL_PER_MINUTE, DEFAULT_RATE_LIMITS.refillPerMinute),
+		daily: overrides.daily ?? envNumber(env.QUOTA_DAILY, DEFAULT_RATE_LIMITS.daily),
+		monthly: overrides.monthly ?? envNumber(env.QUOTA_MONTHLY, DEFAULT_RATE_LIMITS.monthly)
+	};
+}
+
+function secondsUntil(from: Date, to: Date): number {
+	return Math.max(Math.ceil((to.getTime() - from.getTime()) / 1000), 1);
+}
+
+/**
+ * Aplica una petición de coste `cost` al estado del cliente. Las cuotas se
+ * comprueban antes que el bucket y una petición bloqueada no consume nada.
+ * Es una función pura: el Durable Object guarda el estado que devuelve.
+ */
+export function consume(previous: RateLimitState | null, limits: RateLimits, cost: number, now: Date): { state: RateLimitState; decision: RateLimitDecision } {
+	const day = now.toISOString().slice(0, 10);
+	const month = now.toISOString().slice(0, 7);
+	const ratePerMs = limits.refillPerMinute / 60_000;
+
+	const state: RateLimitState = previous ? { ...previous } : {
+		tokens: limits.capacity, refilledAt: now.getTime(), day, dayCount: 0, month, monthCount: 0, blockedCount: 0
+	};
+	state.tokens = Math.min(limits.capacity, state.tokens + (now.getTime() - state.refilledAt) * ratePerMs);
+	state.refilledAt = now.getTime();
+	if (state.day !== day) {
+		state.day = day;
+		state.dayCount = 0;
+	}
+	if (state.month !== month) {
+		state.month = month;
+		state.monthCount = 0;
+	}
+
+	const nextDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+	const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+	const quota = (used: number, limit: number, resetAt: Date): QuotaUsage => ({ used, limit, resetSeconds: secondsUntil(now, resetAt) });
+	const block = (reason: RateLimitDecision['reason'], limit: number, retryAfterSeconds: number): RateLimitDecision => {
+		state.blockedCount++;
+		return {
+			allowed: false,
+			reason,
+			limit,
+			remaining: 0,
+			resetSeconds: retryAfterSeconds,
+			retryAfterSeconds,
+			daily: quota(state.dayCount, limits.daily, nextDay),
+			monthly: quota(state.monthCount, limits.monthly, nextMonth)
+		};
+	};
+
+	if (limits.monthly > 0 && state.monthCount + cost > limits.monthly) {
+		return { state, decision: block('monthly', limits.monthly, secondsUntil(now, nextMonth)) };
+	}
+	if (limits.daily > 0 && state.dayCount + cost > limits.daily) {
+		return { state, decision: block('daily', limits.daily, secondsUntil(now, nextDay)) };
+	}
+	if (state.tokens < cost) {
+		// Sin recarga el bucket no se recupera nunca: se reintenta al día siguiente
+		const retryAfter = ratePerMs > 0 ? Math.ceil((cost - state.tokens) / ratePerMs / 1000) : secondsUntil(now, nextDay);
+		return { state, decision: block('rate', limits.capacity, retryAfter) };
+	}
+
+	state.tokens -= cost;
+	state.dayCount += cost;
+	state.monthCount += cost;
+	return {
+		state,
+		decision: {
+			allowed: true,
+			limit: limits.capacity,
+			remaining: Math.floor(state.tokens),
+			resetSeconds: ratePerMs > 0 ? Math.ceil((limits.capacity - state.tokens) / ratePerMs / 1000) : 0,
+			daily: quota(state.dayCount, limits.daily, nextDay),
+			monthly: quota(state.monthCount, limits.monthly, nextMonth)
+		}
+	};
+}
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+	const headers: Record<string, string> = {
+		'X-RateLimit-Limit': String(decision.limit),
+		'X-RateLimit-Remaining': String(decision.remaining),
+		'X-RateLimit-Reset': String(decision.resetSeconds)
+	};
+	if (decision.daily.limit > 0) headers['X-RateLimit-Daily-Remaining'] = String(Math.max(decision.daily.limit - decision.daily.used, 0));
+	if (decision.monthly.limit > 0) headers['X-RateLimit-Monthly-Remaining'] = String(Math.max(decision.monthly.limit - decision.monthly.used, 0));
+	if (decision.retryAfterSeconds !== undefined) headers['Retry-After'] = String(decision.retryAfterSeconds);
+	return headers;
+}
+
+export class RateLimiter {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(RATE_LIMIT_AGENT));
+	}
+
+	async consume(clientId: string, label: string | undefined, limits: RateLimits, cost = 1): Promise<RateLimitDecision> {
+		const { decision } = await this.call<{ decision: RateLimitDecision }>("/rate-limits/consume", {
+			method: "POST",
+			body: JSON.stringify({ clientId, label, limits, cost })
+		});
+		return decision;
+	}
+
+	async list(limit = 50): Promise<RateLimitCounter[]> {
+		const { counters } = await this.call<{ counters: RateLimitCounter[] }>(`/rate-limits?limit=${limit}`);
+		return counters;
+	}
+
+	async get(clientId: string): Promise<RateLimitCounter | null> {
+		const response = await this.stub.fetch(`https://agent.internal/rate-limits/${encodeURIComponent(clientId)}`);
+		if (response.status === 404) return null;
+		if (!response.ok) {
+			throw new Error(`Rate limiter error: ${response.status} - ${await response.text()}`);
+		}
+		const { counter } = await response.json() as { counter: RateLimitCounter };
+		return counter;
+	}
+
+	// Devuelve false si el cliente no tenía contadores
+	async reset(clientId: string): Promise<boolean> {
+		const { deleted } = await this.call<{ deleted: boolean }>(`/rate-limits/${encodeURIComponent(clientId)}`, { method: "DELETE" });
+		return deleted;
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Rate limiter error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
@@ -0,0 +1,80 @@
+// Cliente del registro de documentos que vive en el SQLite del Durable Object MyAgent
+import type { Env } from './types';
+
+// Instancia del Durable Object que guarda el registro (Vectorize no se puede enumerar)
+export const KNOWLEDGE_BASE_AGENT = "knowledge-base";
+
+export interface DocumentRecord {
+	id: string;
+	title?: string;
+	source?: string;
+	r2Key?: string;
+	contentType?: string;
+	contentHash: string;
+	chunkCount: number;
+	chunkSize: number;
+	chunkOverlap: number;
+	embeddingModel?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface DocumentPage {
+	documents: DocumentRecord[];
+	total: number;
+	limit: number;
+	offset: number;
+}
+
+export class DocumentRegistry {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(KNOWLEDGE_BASE_AGENT));
+	}
+
+	async list(limit = 50, offset = 0): Promise<DocumentPage> {
+		return this.call<DocumentPage>(`/documents?limit=${limit}&offset=${offset}`);
+	}
+
+	async get(id: string): Promise<DocumentRecord | null> {
+		const response = await this.stub.fetch(`https://agent.internal/documents/${encodeURIComponent(id)}`);
+		if (response.status === 404) return null;
+		if (!response.ok) {
+			throw new Error(`Document registry error: ${response.status} - ${await response.text()}`);
+		}
+		const { document } = await response.json() as { document: DocumentRecord };
+		return document;
+	}
+
+	async getMany(ids: string[]): Promise<Map<string, DocumentRecord>> {
+		if (ids.length === 0) return new Map();
+		const { documents } = await this.call<{ documents: DocumentRecord[] }>("/documents/lookup", {
+			method: "POST",
+			body: JSON.stringify({ ids })
+		});
+		return new Map(documents.map(document => [document.id, document]));
+	}
+
+	async put(record: DocumentRecord): Promise<void> {
+		await this.call(`/documents/${encodeURIComponent(record.id)}`, {
+			method: "PUT",
+			body: JSON.stringify(record)
+		});
+	}
+
+	async delete(id: string): Promise<void> {
+		await this.call(`/documents/${encodeURIComponent(id)}`, { method: "DELETE" });
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Document registry error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
@@ -0,0 +1,135 @@
+// Segunda etapa de la recuperación: reranking con un cross-encoder, umbral de relevancia y presupuesto de contexto
+import type { RetrievalOptions, RetrievedMatch } from './retrieval';
+import type { Env } from './types';
+
+export const DEFAULT_RERANKER_MODEL = "@cf/baai/bge-reranker-base";
+export const DEFAULT_RERANK_CANDIDATES = 20;
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 2000;
+export const MAX_RERANK_CANDIDATES = 50;
+
+// El umbral se compara con el score de rerank si lo hay (0-1) y si no con la similitud coseno
+const DEFAULT_RERANK_THRESHOLD = 0.2;
+const DEFAULT_VECTOR_THRESHOLD = 0.5;
+
+// Aproximación de tokens sin tokenizer: ~4 caracteres por token
+const CHARS_PER_TOKEN = 4;
+
+export interface ContextOptions extends RetrievalOptions {
+	threshold?: number;
+	contextTokenBudget?: number; // Tokens máximos de chunks en el prompt
+}
+
+export interface SelectedPassage {
+	match: RetrievedMatch;
+	content: string; // Texto que entra en el prompt (recortado si excede el presupuesto)
+}
+
+export interface ContextSelection {
+	used: SelectedPassage[];
+	tokens: number;
+	threshold: number;
+	tokenBudget: number;
+}
+
+function envNumber(value: string | undefined): number | undefined {
+	const parsed = value ? Number(value) : NaN;
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Modelo de reranking a usar: `rerank: false` lo desactiva en la petición y
+ * RERANKER_MODEL = "none" por defecto (salvo que la petición pida `rerank: true`).
+ */
+export function rerankerModel(env: Env, requested?: boolean): string | null {
+	if (requested === false) return null;
+	const configured = env.RERANKER_MODEL?.trim();
+	if (configured === "none" || configured === "") {
+		return requested ? DEFAULT_RERANKER_MODEL : null;
+	}
+	return configured ?? DEFAULT_RERANKER_MODEL;
+}
+
+export function rerankCandidates(env: Env, requested?: number): number {
+	const candidates = requested ?? envNumber(env.RERANK_CANDIDATES) ?? DEFAULT_RERANK_CANDIDATES;
+	return Math.min(Math.max(Math.floor(candidates), 1), MAX_RERANK_CANDIDATES);
+}
+
+export function relevanceThreshold(env: Env, reranked: boolean, requested?: number): number {
+	return requested ?? envNumber(env.RELEVANCE_THRESHOLD) ?? (reranked ? DEFAULT_RERANK_THRESHOLD : DEFAULT_VECTOR_THRESHOLD);
+}
+
+export function contextTokenBudget(env: Env, requested?: number): number {
+	return requested ?? envNumber(env.CONTEXT_TOKEN_BUDGET) ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Reordena los candidatos con el cross-encoder: puntúa cada par
+ * (pregunta, chunk) y el score de rerank pasa a ser el score del match.
+ * Los scores de la primera etapa se conservan en vectorScore/keywordScore.
+ */
+export async function rerank(env: Env, model: string, query: string, matches: RetrievedMatch[]): Promise<RetrievedMatch[]> {
+	if (matches.length === 0) return matches;
+
+	const output = await env.AI.run(model as typeof DEFAULT_RERANKER_MODEL, {
+		query,
+		contexts: matches.map(match => ({ text: String(match.metadata?.content ?? "") })),
+		top_k: matches.length
+	});
+
+	const scores = new Map<number, number>();
+	for (const { id, score } of output.response ?? []) {
+		if (id !== undefined && score !== undefined) scores.set(id, score);
+	}
+
+	return matches
+		.map((match, index): RetrievedMatch => {
+			const rerankScore = scores.get(index) ?? 0;
+			return { ...match, score: rerankScore, rerankScore };
+		})
+		.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score con el que se decide si un match entra en el contexto. Los matches
+ * que solo encontró la búsqueda por palabras clave (coincidencia exacta) no
+ * tienen score comparable y se aceptan.
+ */
+export function relevanceScore(match: RetrievedMatch): number | undefined {
+	return match.rerankScore ?? match.vectorScore;
+}
+
+/**
+ * Elige los pasajes del contexto: los matches que superan el umbral, en
+ * orden, hasta agotar el presupuesto de tokens. Si el primero ya no cabe se
+ * recorta para no quedarse sin contexto.
+ */
+export function selectContext(matches: RetrievedMatch[], threshold: number, tokenBudget: number): ContextSelection {
+	const used: SelectedPassage[] = [];
+	let tokens = 0;
+
+	for (const match of matches) {
+		const score = relevanceScore(match);
+		if (score !== undefined && score < threshold) continue;
+
+		const content = match.metadata?.content;
+		if (typeof content !== 'string' || content.length === 0) continue;
+
+		const cost = estimateTokens(content);
+		if (tokens + cost > tokenBudget) {
+			if (used.length === 0) {
+				used.push({ match, content: content.substring(0, tokenBudget * CHARS_PER_TOKEN) });
+				tokens = tokenBudget;
+			}
+			break;
+		}
+
+		used.push({ match, content });
+		tokens += cost;
+	}
+
+	return { used, tokens, threshold, tokenBudget };
+}
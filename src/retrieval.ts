@@ -0,0 +1,168 @@
+// Recuperación por vectores, por palabras clave o híbrida con reciprocal rank fusion
+import { embedTexts } from './embeddings';
+import { indexedFields, matchesFilter, splitFilter, type MetadataFilter } from './filters';
+import { KeywordIndex } from './keyword-index';
+import { rerank, rerankCandidates, rerankerModel } from './relevance';
+import { warnOnModelMismatch } from './sources';
+import { traced } from './tracing';
+import type { Env } from './types';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'keyword', 'hybrid'];
+
+// Constante k de RRF: amortigua el peso de las primeras posiciones de cada lista
+const RRF_K = 60;
+
+// Vectorize devuelve como máximo 20 resultados cuando incluye la metadata
+const MAX_VECTOR_CANDIDATES = 20;
+
+export interface RetrievalOptions {
+	topK?: number;
+	mode?: RetrievalMode;
+	filter?: MetadataFilter;
+	rerank?: boolean; // Sin valor: según RERANKER_MODEL
+	candidates?: number; // Candidatos de la primera etapa que se reordenan
+}
+
+export interface RetrievedMatch extends VectorizeMatch {
+	vectorScore?: number;
+	keywordScore?: number;
+	rerankScore?: number;
+}
+
+export interface RetrievalResult {
+	mode: RetrievalMode;
+	matches: RetrievedMatch[];
+	embeddingModel?: string;
+	staleEmbeddings: number;
+	postFiltered: string[]; // Campos del filtro que no resolvió Vectorize
+	reranker: string | null; // Modelo que reordenó los candidatos
+	candidates: number; // Candidatos recuperados en la primera etapa
+}
+
+type FirstStageResult = Omit<RetrievalResult, 'reranker' | 'candidates'>;
+
+export function isRetrievalMode(value: unknown): value is RetrievalMode {
+	return RETRIEVAL_MODES.includes(value as RetrievalMode);
+}
+
+export function defaultRetrievalMode(env: Env): RetrievalMode {
+	return isRetrievalMode(env.RETRIEVAL_MODE) ? env.RETRIEVAL_MODE : 'vector';
+}
+
+/**
+ * Fusiona listas ordenadas con reciprocal rank fusion: cada aparición suma
+ * 1 / (k + posición). No depende de la escala de los scores, por eso sirve
+ * para mezclar similitud coseno con BM25.
+ */
+export function reciprocalRankFusion(lists: RetrievedMatch[][], k = RRF_K): RetrievedMatch[] {
+	const fused = new Map<string, RetrievedMatch>();
+
+	for (const list of lists) {
+		list.forEach((match, rank) => {
+			const existing = fused.get(match.id);
+			const contribution = 1 / (k + rank + 1);
+			if (existing) {
+				existing.score += contribution;
+				existing.vectorScore ??= match.vectorScore;
+				existing.keywordScore ??= match.keywordScore;
+				existing.metadata ??= match.metadata;
+			} else {
+				fused.set(match.id, { ...match, score: contribution });
+			}
+		});
+	}
+
+	return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Recupera candidatos (vector, keyword o híbrido) y, si hay reranker, pide
+ * más de los necesarios para que el cross-encoder elija los `topK` mejores.
+ * Si el reranker falla se mantiene el orden de la primera etapa.
+ */
+export async function retrieve(env: Env, query: string, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+	const topK = options.topK ?? 5;
+	const reranker = rerankerModel(env, options.rerank);
+	const candidates = reranker ? Math.max(rerankCandidates(env, options.candidates), topK) : topK;
+
+	const result = await firstStage(env, query, { ...options, topK: candidates });
+	if (!reranker) {
+		return { ...result, reranker, candidates: result.matches.length };
+	}
+
+	try {
+		const matches = await traced(env, "rerank", () => rerank(env, reranker, query, result.matches));
+		return { ...result, matches: matches.slice(0, topK), reranker, candidates: result.matches.length };
+	} catch (error) {
+		console.error("Reranking failed, keeping first-stage order:", error);
+		return { ...result, matches: result.matches.slice(0, topK), reranker: null, candidates: result.matches.length };
+	}
+}
+
+/**
+ * Los campos del filtro con metadata index se envían a Vectorize; el resto
+ * (y todo el filtro en la búsqueda por palabras clave) se aplica sobre los
+ * candidatos, por eso en ese caso se piden más.
+ */
+async function firstStage(env: Env, query: string, options: RetrievalOptions): Promise<FirstStageResult> {
+	const topK = options.topK ?? 5;
+	const mode = options.mode ?? defaultRetrievalMode(env);
+	const { vectorize: vectorFilter, post: postFilter } = options.filter
+		? splitFilter(options.filter, indexedFields(env))
+		: {};
+
+	// En modo híbrido se piden más candidatos a cada lista antes de fusionar
+	const candidates = mode === 'hybrid' ? Math.max(topK * 2, 10) : topK;
+
+	const vectorSearch = async () => {
+		const { vectors: [queryVector], model } = await embedTexts(env, [query]);
+		const { matches } = await traced(env, "vector_query", () => env.VECTORIZE.query(queryVector, {
+			topK: Math.min(postFilter ? candidates * 4 : candidates, MAX_VECTOR_CANDIDATES),
+			returnMetadata: true,
+			// Los tipos del binding solo declaran $eq/$ne, pero Vectorize acepta también $in/$nin y rangos
+			...(vectorFilter ? { filter: vectorFilter as VectorizeVectorMetadataFilter } : {})
+		}));
+		return {
+			model,
+			matches: matches
+				.filter(match => !postFilter || matchesFilter(match.metadata, postFilter))
+				.map((match): RetrievedMatch => ({ ...match, vectorScore: match.score }))
+		};
+	};
+
+	const keywordSearch = async () => {
+		const matches = await traced(env, "keyword_search", () => new KeywordIndex(env).search(query, options.filter ? candidates * 4 : candidates));
+		return matches
+			.filter(match => !options.filter || matchesFilter(match.metadata, options.filter))
+			.slice(0, candidates)
+			.map((match): RetrievedMatch => ({ ...match, keywordScore: match.score }));
+	};
+
+	const postFiltered = postFilter ? Object.keys(postFilter) : [];
+
+	if (mode === 'keyword') {
+		return { mode, matches: await keywordSearch(), staleEmbeddings: 0, postFiltered };
+	}
+
+	if (mode === 'vector') {
+		const { model, matches } = await vectorSearch();
+		return {
+			mode,
+			matches: matches.slice(0, topK),
+			embeddingModel: model,
+			staleEmbeddings: warnOnModelMismatch(matches, model),
+			postFiltered
+		};
+	}
+
+	const [vector, keyword] = await Promise.all([vectorSearch(), keywordSearch()]);
+	return {
+		mode,
+		matches: reciprocalRankFusion([vector.matches.slice(0, candidates), keyword]).slice(0, topK),
+		embeddingModel: vector.model,
+		staleEmbeddings: warnOnModelMismatch(vector.matches, vector.model),
+		postFiltered
+	};
+}
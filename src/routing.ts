@@ -0,0 +1,275 @@
+// Decisión de routing RAG/GENERAL: palabras clave, sonda de recuperación y LLM, con caché de decisiones
+import { embedTexts } from './embeddings';
+import { detectLanguage, type LanguageCode } from './language';
+import { completeChat } from './llm';
+import { traced } from './tracing';
+import type { Env } from './types';
+import { withUsageRoute } from './usage';
+
+export type Route = 'RAG' | 'GENERAL';
+export type RoutingMethod = 'forced' | 'keyword' | 'retrieval-probe' | 'llm' | 'heuristic';
+export type RoutingStrategy = 'keyword' | 'probe' | 'llm';
+
+export const ROUTING_STRATEGIES: RoutingStrategy[] = ['keyword', 'probe', 'llm'];
+
+export interface RoutingDecision {
+	route: Route;
+	confidence: number; // 0-1
+	method: RoutingMethod;
+	reasoning: string;
+	matchedKeywords?: string[];
+	probeScore?: number; // Mejor score de Vectorize en la sonda
+	provider?: string; // Proveedor y modelo que decidieron en el paso LLM
+	model?: string;
+	cached?: boolean;
+}
+
+const DEFAULT_STRATEGY: RoutingStrategy[] = ['keyword', 'llm'];
+const DEFAULT_PROBE_RAG_SCORE = 0.6;
+const DEFAULT_PROBE_GENERAL_SCORE = 0.4;
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+const MAX_CACHE_ENTRIES = 500;
+
+export interface RoutingKeywords {
+	rag: string[]; // Casos donde usar RAG
+	general: string[]; // Casos donde NO usar RAG (conversación general)
+}
+
+// Listas por idioma; ROUTING_KEYWORDS (JSON) puede sustituir cualquiera de ellas
+const DEFAULT_ROUTING_KEYWORDS: Record<LanguageCode, RoutingKeywords> = {
+	es: {
+		rag: [
+			'document', 'archivo', 'información específica', 'según el documento',
+			'en la base de conocimientos', 'qué dice sobre', 'buscar información',
+			'consultar', 'referencias', 'fuentes', 'datos almacenados'
+		],
+		general: [
+			'hola', 'cómo estás', 'ayuda general', 'explicar conceptos',
+			'definir', 'cómo funciona', 'qué es', 'ayúdame a entender'
+		]
+	},
+	en: {
+		rag: [
+			'document', 'file', 'specific information', 'according to the',
+			'in the knowledge base', 'what does it say about', 'search for information',
+			'look up', 'references', 'sources', 'stored data'
+		],
+		general: [
+			'hello', 'how are you', 'general help', 'explain the concept',
+			'define', 'how does', 'what is', 'help me understand'
+		]
+	},
+	pt: {
+		rag: [
+			'document', 'arquivo', 'informação específica', 'segundo o documento',
+			'na base de conhecimento', 'o que diz sobre', 'buscar informação',
+			'consultar', 'referências', 'fontes', 'dados armazenados'
+		],
+		general: [
+			'olá', 'tudo bem', 'ajuda geral', 'explicar conceitos',
+			'definir', 'como funciona', 'o que é', 'me ajude a entender'
+		]
+	}
+};
+
+// ROUTING_KEYWORDS se parsea una vez por isolate
+let parsedOverrides: { raw: string; overrides: Partial<Record<LanguageCode, Partial<RoutingKeywords>>> } | null = null;
+
+export function routingKeywords(env: Env, language: LanguageCode): RoutingKeywords {
+	const raw = env.ROUTING_KEYWORDS;
+	if (raw && parsedOverrides?.raw !== raw) {
+		try {
+			parsedOverrides = { raw, overrides: JSON.parse(raw) };
+		} catch (error) {
+			console.error("Invalid ROUTING_KEYWORDS, using the default keyword lists:", error);
+			parsedOverrides = { raw, overrides: {} };
+		}
+	}
+
+	const override = raw ? parsedOverrides?.overrides[language] : undefined;
+	return {
+		rag: override?.rag ?? DEFAULT_ROUTING_KEYWORDS[language].rag,
+		general: override?.general ?? DEFAULT_ROUTING_KEYWORDS[language].general
+	};
+}
+
+const ROUTER_SYSTEM_PROMPT = `Decide si la pregunta requiere buscar en una base de conocimientos específica (RAG) o si se puede responder con conocimiento general (GENERAL).
+Responde únicamente con un objeto JSON con esta forma:
+{"route": "RAG" | "GENERAL", "confidence": número entre 0 y 1, "reasoning": "una frase explicando la decisión"}`;
+
+export function isRoutingStrategy(value: unknown): value is RoutingStrategy {
+	return ROUTING_STRATEGIES.includes(value as RoutingStrategy);
+}
+
+// Estrategias en el orden de ROUTING_STRATEGY; la primera concluyente decide
+export function routingStrategy(env: Env): RoutingStrategy[] {
+	const strategies = env.ROUTING_STRATEGY?.split(',').map(name => name.trim()).filter(isRoutingStrategy);
+	return strategies && strategies.length > 0 ? strategies : DEFAULT_STRATEGY;
+}
+
+function envNumber(value: string | undefined, fallback: number): number {
+	const parsed = value ? Number(value) : NaN;
+	return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function keywordDecision(env: Env, question: string, language: LanguageCode): RoutingDecision | null {
+	const keywords = routingKeywords(env, language);
+	const questionLower = question.toLowerCase();
+	const ragMatches = keywords.rag.filter(keyword => questionLower.includes(keyword.toLowerCase()));
+	if (ragMatches.length > 0) {
+		return {
+			route: 'RAG',
+			confidence: 0.9,
+			method: 'keyword',
+			reasoning: `The question mentions ${ragMatches.map(keyword => `"${keyword}"`).join(", ")}, which refers to the knowledge base`,
+			matchedKeywords: ragMatches
+		};
+	}
+
+	const generalMatches = keywords.general.filter(keyword => questionLower.includes(keyword.toLowerCase()));
+	if (generalMatches.length > 0) {
+		return {
+			route: 'GENERAL',
+			confidence: 0.8,
+			method: 'keyword',
+			reasoning: `The question matches general conversation keywords (${generalMatches.map(keyword => `"${keyword}"`).join(", ")})`,
+			matchedKeywords: generalMatches
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Sonda de recuperación: si el chunk más parecido supera ROUTING_PROBE_RAG_SCORE
+ * la base de conocimientos tiene algo que aportar; por debajo de
+ * ROUTING_PROBE_GENERAL_SCORE no. Entre ambos umbrales no es concluyente.
+ */
+async function probeDecision(env: Env, question: string): Promise<RoutingDecision | null> {
+	const ragScore = envNumber(env.ROUTING_PROBE_RAG_SCORE, DEFAULT_PROBE_RAG_SCORE);
+	const generalScore = envNumber(env.ROUTING_PROBE_GENERAL_SCORE, DEFAULT_PROBE_GENERAL_SCORE);
+
+	const { vectors: [vector] } = await embedTexts(env, [question]);
+	const { matches } = await traced(env, "vector_query", () => env.VECTORIZE.query(vector, { topK: 1 }));
+	const topScore = matches[0]?.score ?? 0;
+
+	if (topScore >= ragScore) {
+		return {
+			route: 'RAG',
+			confidence: Math.min(0.6 + (topScore - ragScore), 1),
+			method: 'retrieval-probe',
+			reasoning: `The closest knowledge base chunk scores ${topScore.toFixed(3)}, above the RAG threshold of ${ragScore}`,
+			probeScore: topScore
+		};
+	}
+	if (topScore <= generalScore) {
+		return {
+			route: 'GENERAL',
+			confidence: Math.min(0.6 + (generalScore - topScore), 1),
+			method: 'retrieval-probe',
+			reasoning: matches.length === 0
+				? "The knowledge base returned no matches"
+				: `The closest knowledge base chunk scores ${topScore.toFixed(3)}, below the GENERAL threshold of ${generalScore}`,
+			probeScore: topScore
+		};
+	}
+
+	return null;
+}
+
+// Paso LLM con temperatura 0 y salida JSON para que la decisión sea reproducible
+async function llmDecision(env: Env, question: string): Promise<RoutingDecision> {
+	const completion = await completeChat(env, [
+		{ role: "system", content: ROUTER_SYSTEM_PROMPT },
+		{ role: "user", content: `Pregunta: "${question}"` }
+	], { temperature: 0, top_p: 1, max_tokens: 120, response_format: { type: "json_object" } });
+
+	const parsed = JSON.parse(completion.content) as { route?: unknown; confidence?: unknown; reasoning?: unknown };
+	const route = typeof parsed.route === 'string' ? parsed.route.toUpperCase() : undefined;
+	if (route !== 'RAG' && route !== 'GENERAL') {
+		throw new Error(`Router returned an invalid route: ${completion.content}`);
+	}
+
+	return {
+		route,
+		confidence: typeof parsed.confidence === 'number' ? Math.min(Math.max(parsed.confidence, 0), 1) : 0.5,
+		method: 'llm',
+		reasoning: typeof parsed.reasoning === 'string' && parsed.reasoning ? parsed.reasoning : "No reasoning returned by the model",
+		provider: completion.provider,
+		model: completion.model
+	};
+}
+
+// Caché por isolate: las preguntas repetidas no vuelven a pasar por la sonda ni el LLM
+const decisionCache = new Map<string, { decision: RoutingDecision; expiresAt: number }>();
+
+// Incluye el tenant: la sonda decide según su base de conocimientos
+function cacheKey(env: Env, question: string, strategy: RoutingStrategy[], language: LanguageCode): string {
+	return `${env.TENANT_ID ?? ""}|${strategy.join(",")}|${language}|${question.trim().toLowerCase().replace(/\s+/g, " ")}`;
+}
+
+function cachedDecision(key: string): RoutingDecision | null {
+	const entry = decisionCache.get(key);
+	if (!entry) return null;
+	if (entry.expiresAt <= Date.now()) {
+		decisionCache.delete(key);
+		return null;
+	}
+	return { ...entry.decision, cached: true };
+}
+
+function cacheDecision(env: Env, key: string, decision: RoutingDecision): void {
+	const ttlSeconds = envNumber(env.ROUTING_CACHE_TTL_SECONDS, DEFAULT_CACHE_TTL_SECONDS);
+	if (ttlSeconds <= 0) return;
+
+	// Map mantiene el orden de inserción: se descarta la entrada más antigua
+	if (decisionCache.size >= MAX_CACHE_ENTRIES) {
+		const oldest = decisionCache.keys().next().value;
+		if (oldest !== undefined) decisionCache.delete(oldest);
+	}
+	decisionCache.set(key, { decision, expiresAt: Date.now() + ttlSeconds * 1000 });
+}
+
+export function forcedDecision(): RoutingDecision {
+	return { route: 'RAG', confidence: 1, method: 'forced', reasoning: "RAG was forced by the request (forceRAG: true)" };
+}
+
+/**
+ * Recorre las estrategias configuradas hasta que una sea concluyente. Si
+ * ninguna lo es (o fallan), se decide por la longitud de la pregunta: las
+ * preguntas largas tienden a ser más específicas. Las palabras clave se
+ * eligen según el idioma de la pregunta.
+ */
+export async function decideRoute(env: Env, question: string, options: { cache?: boolean; language?: LanguageCode } = {}): Promise<RoutingDecision> {
+	const useCache = options.cache ?? true;
+	const language = options.language ?? detectLanguage(env, question).code;
+	const strategy = routingStrategy(env);
+	const key = cacheKey(env, question, strategy, language);
+	const cached = useCache ? cachedDecision(key) : null;
+	if (cached) return cached;
+
+	// La sonda y el paso LLM se contabilizan aparte del resto de la petición
+	const routingEnv = withUsageRoute(env, "routing");
+	let decision: RoutingDecision | null = null;
+	for (const step of strategy) {
+		try {
+			if (step === 'keyword') decision = keywordDecision(env, question, language);
+			else if (step === 'probe') decision = await probeDecision(routingEnv, question);
+			else decision = await llmDecision(routingEnv, question);
+		} catch (error) {
+			console.error(`Routing step "${step}" failed:`, error);
+		}
+		if (decision) break;
+	}
+
+	decision ??= {
+		route: question.length > 20 ? 'RAG' : 'GENERAL',
+		confidence: 0.3,
+		method: 'heuristic',
+		reasoning: `No routing strategy was conclusive; ${question.length > 20 ? "longer questions tend to be specific" : "short questions tend to be conversational"}`
+	};
+
+	// La heurística suele venir de un fallo del LLM o de la sonda: no se cachea para reintentar la próxima vez
+	if (useCache && decision.method !== 'heuristic') cacheDecision(env, key, decision);
+	return decision;
+}
@@ -0,0 +1,239 @@
+// Schemas zod de las peticiones: validan el cuerpo y los parámetros y generan el openapi.json
+import { z } from 'zod';
+import { MAX_AGENT_STEPS, MIN_FINAL_ANSWER_TOKENS } from './agent-loop';
+import { CACHE_MODES } from './answer-cache';
+import { resolveChunkOptions } from './chunking';
+import { MAX_EVAL_ITEMS, ROUTES } from './evaluation';
+import { MAX_COMMENT_LENGTH, MAX_CORRECTED_ANSWER_LENGTH, MAX_RATING, MIN_RATING } from './feedback';
+import { validateFilter, type MetadataFilter } from './filters';
+import { isValidDocumentId } from './indexing';
+import { MAX_JOB_DOCUMENT_BYTES, MAX_JOB_DOCUMENTS } from './jobs';
+import { SUPPORTED_LANGUAGES } from './language';
+import { MAX_RERANK_CANDIDATES } from './relevance';
+import { RETRIEVAL_MODES } from './retrieval';
+import { isValidSessionId } from './sessions';
+
+export const SessionId = z.string()
+	.refine(isValidSessionId, "Invalid sessionId (1-128 characters: letters, digits, '_', '-', '.', ':')")
+	.describe("Conversation session; without it the shared history is used");
+
+export const DocumentId = z.string()
+	.refine(isValidDocumentId, "Invalid document ID (1-48 characters: letters, digits, '_', '-', '.', ':')");
+
+export const RetrievalModeSchema = z.enum(RETRIEVAL_MODES as [typeof RETRIEVAL_MODES[number], ...typeof RETRIEVAL_MODES])
+	.describe("vector, keyword (BM25) or hybrid (reciprocal rank fusion)");
+
+export const MetadataFilterSchema = z.record(z.string(), z.unknown())
+	.superRefine((filter, ctx): filter is MetadataFilter => {
+		const error = validateFilter(filter);
+		if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+		return error === null;
+	})
+	.describe('Metadata filter, e.g. {"source": "faq", "timestamp": {"$gte": "2024-01-01"}}');
+
+// Fecha ISO 8601 en query (from, to)
+export const DateParam = z.string()
+	.refine(value => !isNaN(new Date(value).getTime()), "Invalid date (expected ISO 8601)");
+
+const rerankFields = {
+	rerank: z.boolean().optional().describe("Rerank the candidates with the cross-encoder (RERANKER_MODEL)"),
+	candidates: z.number().int().min(1).max(MAX_RERANK_CANDIDATES).optional().describe("Candidates retrieved before reranking")
+};
+
+const chunkFields = {
+	chunkSize: z.number().int().optional().describe("Characters per chunk (100 to 2000)"),
+	chunkOverlap: z.number().int().optional().describe("Characters repeated between consecutive chunks")
+};
+
+// resolveChunkOptions es la referencia: el error se asigna a chunkOverlap
+function refineChunkOptions(options: { chunkSize?: number; chunkOverlap?: number }, ctx: z.RefinementCtx) {
+	try {
+		resolveChunkOptions(options);
+	} catch (error) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["chunkOverlap"], message: error instanceof Error ? error.message : "Invalid chunk options" });
+	}
+}
+
+export const ChatRequest = z.object({
+	question: z.string({ required_error: "question is required" }).trim().min(1, "question is required"),
+	language: z.enum(SUPPORTED_LANGUAGES as [typeof SUPPORTED_LANGUAGES[number], ...typeof SUPPORTED_LANGUAGES]).optional()
+		.describe("Answer language; detected from the question when omitted"),
+	topK: z.number().int().min(1).max(50).default(3),
+	mode: RetrievalModeSchema.optional(),
+	filter: MetadataFilterSchema.optional(),
+	...rerankFields,
+	threshold: z.number().finite().optional().describe("Minimum relevance score of the chunks in the prompt"),
+	contextTokenBudget: z.number().int().min(1).optional(),
+	forceRAG: z.boolean().default(false),
+	stream: z.boolean().optional().describe("Answer as Server-Sent Events; when omitted, 'Accept: text/event-stream' also enables it"),
+	sessionId: SessionId.optional(),
+	historyTurns: z.number().int().min(0).max(20).optional(),
+	agent: z.boolean().default(false).describe("Agent mode: the model calls tools instead of going through the router"),
+	maxSteps: z.number().int().min(1).max(MAX_AGENT_STEPS).optional(),
+	tokenBudget: z.number().int().min(MIN_FINAL_ANSWER_TOKENS).optional(),
+	cache: z.enum(CACHE_MODES as [typeof CACHE_MODES[number], ...typeof CACHE_MODES]).default('use')
+		.describe("bypass: neither read nor write the semantic answer cache"),
+	debug: z.boolean().default(false).describe("Include the stage timings and the exact prompts sent to the model")
+});
+
+export const InsertDocument = z.union([
+	z.string().min(1),
+	z.object({
+		id: z.coerce.string().pipe(DocumentId).optional().describe("Stable ID; derived from the content when omitted"),
+		content: z.string().optional(),
+		text: z.string().optional().describe("Alias of content"),
+		title: z.string().optional(),
+		source: z.string().optional()
+	}).refine(document => Boolean(document.content || document.text), { message: "content is required", path: ["content"] })
+]);
+
+const insertDocuments = z.array(InsertDocument, { required_error: "documents array is required" }).min(1, "documents array is required");
+
+export const InsertRequest = z.object({
+	documents: insertDocuments,
+	...chunkFields
+}).superRefine(refineChunkOptions);
+
+// Igual que /insert, con los límites de lo que un job guarda hasta indexarlo
+export const JobRequest = z.object({
+	documents: insertDocuments
+		.max(MAX_JOB_DOCUMENTS, `Too many documents (max ${MAX_JOB_DOCUMENTS} per job)`)
+		.superRefine((documents, ctx) => {
+			const encoder = new TextEncoder();
+			documents.forEach((document, index) => {
+				const content = typeof document === 'string' ? document : document.content || document.text || "";
+				if (encoder.encode(content).length > MAX_JOB_DOCUMENT_BYTES) {
+					ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: `Document exceeds ${MAX_JOB_DOCUMENT_BYTES} bytes` });
+				}
+			});
+		}),
+	...chunkFields
+}).superRefine(refineChunkOptions);
+
+// Campos de texto del formulario de POST /upload; los archivos van en `file`
+const uploadFields = {
+	id: DocumentId.optional().describe("Stable ID for a single file; derived from the content when omitted"),
+	title: z.string().optional().describe("Title for a single file; the file name otherwise"),
+	source: z.string().optional(),
+	...chunkFields
+};
+
+export const UploadForm = z.object(uploadFields).superRefine(refineChunkOptions);
+
+// Solo para el openapi.json: chanfana no valida cuerpos multipart
+export const UploadRequest = z.object({
+	file: z.array(z.string().openapi({ format: "binary" })).describe("One or more files (max 20 MB each)"),
+	...uploadFields
+});
+
+export const DocumentUpdateRequest = z.object({
+	content: z.string().optional().describe("New content; without it the original file in R2 is extracted again"),
+	title: z.string().optional(),
+	source: z.string().optional(),
+	...chunkFields
+}).superRefine(refineChunkOptions);
+
+export const SearchRequest = z.object({
+	query: z.string({ required_error: "query is required" }).trim().min(1, "query is required"),
+	topK: z.number().int().min(1).max(50).default(5),
+	mode: RetrievalModeSchema.optional(),
+	filter: MetadataFilterSchema.optional(),
+	...rerankFields
+});
+
+export const EvalItemSchema = z.object({
+	id: z.string().optional(),
+	question: z.string({ required_error: "question is required" }).trim().min(1, "question is required"),
+	expectedRoute: z.enum(ROUTES as [typeof ROUTES[number], ...typeof ROUTES]).optional(),
+	relevantDocumentIds: z.array(z.string()).optional()
+}).refine(item => item.expectedRoute !== undefined || item.relevantDocumentIds !== undefined, {
+	message: "needs expectedRoute, relevantDocumentIds or both",
+	path: ["expectedRoute"]
+});
+
+export const EvalRequest = z.object({
+	name: z.string().optional().describe("Runs with the same name are compared with the previous one"),
+	items: z.array(EvalItemSchema).min(1, "items must be a non-empty array").max(MAX_EVAL_ITEMS, `Too many items (max ${MAX_EVAL_ITEMS} per run)`),
+	k: z.number().int().min(1).max(20).optional(),
+	mode: RetrievalModeSchema.optional(),
+	filter: MetadataFilterSchema.optional(),
+	...rerankFields
+});
+
+export const FeedbackRequest = z.object({
+	interactionId: z.number({ required_error: "interactionId is required (the interactionId returned by /chat)" }).int().min(1),
+	sessionId: SessionId.optional().describe("Session of the /chat request, if it had one"),
+	rating: z.number({ required_error: "rating is required" }).int().min(MIN_RATING).max(MAX_RATING),
+	comment: z.string().max(MAX_COMMENT_LENGTH).optional(),
+	correctedAnswer: z.string().max(MAX_CORRECTED_ANSWER_LENGTH).optional().describe("The answer that was expected")
+});
+
+// Respuestas: solo los campos principales, el resto se documenta en cada endpoint
+export const SuccessResponse = z.object({ success: z.boolean() }).passthrough();
+
+export const GroupedSourceSchema = z.object({
+	id: z.string(),
+	score: z.number(),
+	title: z.string().optional(),
+	source: z.string().optional(),
+	fileUrl: z.string().optional(),
+	cited: z.boolean().optional(),
+	chunks: z.array(z.object({
+		id: z.string(),
+		chunkIndex: z.number(),
+		score: z.number(),
+		inContext: z.boolean().optional(),
+		content: z.string().optional()
+	}).passthrough())
+}).passthrough();
+
+export const DebugInfoSchema = z.object({
+	requestId: z.string(),
+	totalMs: z.number(),
+	stages: z.record(z.string(), z.number()).describe('Milliseconds per stage; nested stages are named "retrieval.embedding"'),
+	timings: z.array(z.object({ stage: z.string(), startMs: z.number(), durationMs: z.number() })),
+	prompts: z.array(z.object({ stage: z.string(), messages: z.array(z.unknown()) }))
+});
+
+export const ChatResponse = z.object({
+	question: z.string(),
+	answer: z.string(),
+	usedRAG: z.boolean(),
+	sources: z.array(GroupedSourceSchema).optional(),
+	agentDecision: z.enum(['RAG', 'GENERAL', 'AGENT']),
+	sessionId: z.string().optional(),
+	interactionId: z.number().nullable().describe("Use it to rate the answer with POST /feedback"),
+	cached: z.boolean().optional(),
+	debug: DebugInfoSchema.optional().describe("Only with debug: true"),
+	timestamp: z.string()
+}).passthrough();
+
+export const IngestionJobSchema = z.object({
+	id: z.string(),
+	status: z.enum(['queued', 'running', 'completed', 'completed_with_errors']),
+	progress: z.object({
+		total: z.number(),
+		processed: z.number(),
+		succeeded: z.number(),
+		failed: z.number(),
+		pending: z.number(),
+		percent: z.number()
+	}),
+	chunks: z.number().describe("Chunks indexed so far"),
+	documents: z.array(z.object({
+		index: z.number().describe("Position in the request"),
+		id: z.string(),
+		status: z.enum(['pending', 'succeeded', 'failed']),
+		attempts: z.number(),
+		chunks: z.number().optional(),
+		error: z.string().optional().describe("Error of the last attempt"),
+		retryAt: z.string().optional().describe("Next automatic attempt of a pending document that failed")
+	}).passthrough()),
+	error: z.string().optional().describe("Last error while preparing a batch; the job retries it")
+}).passthrough();
+
+export const SearchResponse = z.object({
+	query: z.string(),
+	mode: RetrievalModeSchema,
+	matches: z.array(GroupedSourceSchema)
+}).passthrough();
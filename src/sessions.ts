@@ -0,0 +1,109 @@
+// Sesiones de conversación: cada sessionId tiene su propia instancia de MyAgent
+import type { GroupedSource } from './sources';
+import type { ChatMessage, Env, Interaction, InteractionSource } from './types';
+
+// Instancia usada por las peticiones sin sessionId (historial compartido previo)
+export const DEFAULT_AGENT = "main-agent";
+// Instancia con una copia de las interacciones, valoraciones y duraciones de todas las sesiones, para las estadísticas del tenant
+export const ANALYTICS_AGENT = "analytics";
+export const DEFAULT_HISTORY_TURNS = 5;
+
+const SESSION_ID_PATTERN = /^[\w.:\-]{1,128}$/;
+
+export function isValidSessionId(sessionId: string): boolean {
+	return SESSION_ID_PATTERN.test(sessionId);
+}
+
+export function agentStub(env: Env, sessionId?: string): DurableObjectStub {
+	const agentId = env.MyAgent.idFromName(sessionId ? `session:${sessionId}` : DEFAULT_AGENT);
+	return env.MyAgent.get(agentId);
+}
+
+export function analyticsStub(env: Env): DurableObjectStub {
+	return env.MyAgent.get(env.MyAgent.idFromName(ANALYTICS_AGENT));
+}
+
+// La sesión es la fuente de verdad: si la copia falla se registra el error y la petición sigue
+export async function copyToAnalytics(env: Env, path: "/save" | "/feedback", body: Record<string, unknown>): Promise<void> {
+	try {
+		const response = await analyticsStub(env).fetch(`https://agent.internal${path}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body)
+		});
+		// El cuerpo se lee siempre para liberar la conexión con el Durable Object
+		const details = await response.text();
+		if (!response.ok) {
+			throw new Error(`Agent analytics error: ${response.status} - ${details}`);
+		}
+	} catch (error) {
+		console.error(`Failed to copy ${path} to the analytics instance:`, error);
+	}
+}
+
+export function historyTurns(env: Env, requested?: number): number {
+	const turns = requested ?? (env.HISTORY_TURNS ? Number(env.HISTORY_TURNS) : DEFAULT_HISTORY_TURNS);
+	return Math.min(Math.max(Math.floor(turns) || 0, 0), 20);
+}
+
+// Últimos `turns` intercambios de la sesión como mensajes user/assistant
+export async function loadRecentTurns(env: Env, sessionId: string | undefined, turns: number): Promise<ChatMessage[]> {
+	if (!sessionId || turns === 0) return [];
+
+	try {
+		const response = await agentStub(env, sessionId).fetch(`https://agent.internal/history?limit=${turns}`);
+		if (!response.ok) {
+			throw new Error(`Agent history error: ${response.status}`);
+		}
+		// El historial llega del más reciente al más antiguo
+		const { history } = await response.json() as { history: Interaction[] };
+
+		return history.reverse().flatMap((turn): ChatMessage[] => [
+			{ role: "user", content: turn.question },
+			{ role: "assistant", content: turn.answer }
+		]);
+	} catch (error) {
+		// Sin historial la pregunta se responde igual, solo que sin contexto conversacional
+		console.error("Failed to load session history:", error);
+		return [];
+	}
+}
+
+export function interactionSources(sources: GroupedSource[]): InteractionSource[] {
+	return sources.map(source => ({
+		documentId: source.id,
+		title: source.title,
+		score: source.score,
+		inContext: source.chunks.some(chunk => chunk.inContext),
+		cited: source.cited ?? false
+	}));
+}
+
+/**
+ * Guardar la interacción en el Durable Object para historial; devuelve su ID
+ * (para POST /feedback) o null si no se pudo guardar. Con la traza de la
+ * petición se guardan también las duraciones de sus etapas. La interacción,
+ * sus fuentes y sus duraciones se copian además a la instancia "analytics",
+ * donde se analizan las valoraciones y latencias de todas las sesiones del
+ * tenant.
+ */
+export async function saveInteraction(env: Env, interaction: Interaction, sessionId?: string): Promise<number | null> {
+	try {
+		const timings = env.TRACE?.summary();
+		const response = await agentStub(env, sessionId).fetch("https://agent.internal/save", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ timings, ...interaction })
+		});
+		if (!response.ok) {
+			throw new Error(`Agent save error: ${response.status}`);
+		}
+		const { id } = await response.json() as { id: number };
+		await copyToAnalytics(env, "/save", { timings, ...interaction, sessionId, sessionInteractionId: id });
+		return id;
+	} catch (error) {
+		// No fallar si no se puede guardar el historial
+		console.error("Failed to save to agent history:", error);
+		return null;
+	}
+}
@@ -0,0 +1,103 @@
+// Agrupa los chunks devueltos por Vectorize en su documento de origen
+
+export interface SourceChunk {
+	id: string;
+	chunkIndex: number;
+	score: number;
+	vectorScore?: number;
+	keywordScore?: number;
+	rerankScore?: number;
+	inContext?: boolean; // El chunk se incluyó en el prompt de /chat
+	start?: number;
+	end?: number;
+	content?: string;
+}
+
+export interface GroupedSource {
+	id: string;
+	score: number; // Mejor score entre los chunks del documento
+	title?: string;
+	source?: string;
+	timestamp?: string;
+	r2Key?: string;
+	embeddingModel?: string;
+	fileUrl?: string; // Descarga del original vía GET /files/<r2Key>
+	cited?: boolean; // La respuesta de /chat cita este documento
+	chunks: SourceChunk[];
+}
+
+export function metadataString(match: VectorizeMatch, key: string): string | undefined {
+	const value = match.metadata?.[key];
+	return typeof value === 'string' ? value : undefined;
+}
+
+export function metadataNumber(match: VectorizeMatch, key: string): number | undefined {
+	const value = match.metadata?.[key];
+	return typeof value === 'number' ? value : undefined;
+}
+
+// Los vectores insertados antes del chunking no tienen parentId: son su propio documento
+export function parentIdOf(match: VectorizeMatch): string {
+	return metadataString(match, 'parentId') ?? match.id;
+}
+
+// Scores por etapa cuando el match viene de una recuperación híbrida o reordenada
+type ScoredMatch = VectorizeMatch & { vectorScore?: number; keywordScore?: number; rerankScore?: number };
+
+export function groupMatchesByParent(matches: ScoredMatch[], previewLength?: number): GroupedSource[] {
+	const groups = new Map<string, GroupedSource>();
+
+	for (const match of matches) {
+		const parentId = parentIdOf(match);
+		let group = groups.get(parentId);
+		if (!group) {
+			const r2Key = metadataString(match, 'r2Key');
+			group = {
+				id: parentId,
+				score: match.score,
+				title: metadataString(match, 'title'),
+				source: metadataString(match, 'source'),
+				timestamp: metadataString(match, 'timestamp'),
+				r2Key,
+				embeddingModel: metadataString(match, 'embeddingModel'),
+				fileUrl: r2Key ? `/files/${r2Key}` : undefined,
+				chunks: [],
+			};
+			groups.set(parentId, group);
+		}
+
+		const content = metadataString(match, 'content');
+		group.score = Math.max(group.score, match.score);
+		group.chunks.push({
+			id: match.id,
+			chunkIndex: metadataNumber(match, 'chunkIndex') ?? 0,
+			score: match.score,
+			vectorScore: match.vectorScore,
+			keywordScore: match.keywordScore,
+			rerankScore: match.rerankScore,
+			start: metadataNumber(match, 'charStart'),
+			end: metadataNumber(match, 'charEnd'),
+			content: content && previewLength !== undefined && content.length > previewLength
+				? content.substring(0, previewLength) + "..."
+				: content,
+		});
+	}
+
+	for (const group of groups.values()) {
+		group.chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+	}
+
+	return [...groups.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Cuenta los matches embebidos con otro modelo que el actual: sus scores no
+ * son comparables y el documento debería re-embeberse (PUT /documents/:id).
+ */
+export function warnOnModelMismatch(matches: VectorizeMatch[], model: string): number {
+	const stale = matches.filter(match => metadataString(match, 'embeddingModel') !== model);
+	if (stale.length > 0) {
+		console.warn(`${stale.length} matches were embedded with a different model than ${model}:`, stale.map(match => match.id));
+	}
+	return stale.length;
+}
@@ -0,0 +1,59 @@
+// Utilidades Server-Sent Events: respuestas en streaming de /chat y lectura de streams de los proveedores
+
+export function sseEvent(event: string, data: unknown): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Un `stream` explícito manda; la cabecera Accept solo decide cuando el cliente no lo indica
+export function wantsEventStream(request: Request, stream?: boolean): boolean {
+	return stream ?? (request.headers.get("Accept") ?? "").includes("text/event-stream");
+}
+
+/**
+ * Lee un cuerpo SSE y devuelve el campo data de cada evento. Con
+ * `idleTimeoutMs`, si una lectura no recibe datos a tiempo se cancela el
+ * cuerpo y se lanza un error en lugar de esperar indefinidamente.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>, idleTimeoutMs?: number): AsyncGenerator<string> {
+	const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+
+	try {
+		while (true) {
+			const { done, value } = idleTimeoutMs ? await readWithin(reader, idleTimeoutMs) : await reader.read();
+			if (done) break;
+			buffer += value;
+
+			let boundary: number;
+			while ((boundary = buffer.search(/\r?\n\r?\n/)) >= 0) {
+				const rawEvent = buffer.slice(0, boundary);
+				buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+
+				const data = rawEvent
+					.split(/\r?\n/)
+					.filter(line => line.startsWith("data:"))
+					.map(line => line.slice(5).trimStart())
+					.join("\n");
+				if (data) yield data;
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+async function readWithin<T>(reader: ReadableStreamDefaultReader<T>, timeoutMs: number): Promise<ReadableStreamReadResult<T>> {
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			reject(new Error(`Stream stalled: no data received for ${timeoutMs}ms`));
+			reader.cancel().catch(() => {});
+		}, timeoutMs);
+	});
+
+	try {
+		return await Promise.race([reader.read(), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
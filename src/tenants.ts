@@ -0,0 +1,173 @@
+// Tenants: cada uno tiene sus vectores, sus instancias de MyAgent, sus archivos en R2 y sus orígenes CORS
+import type { Env } from './types';
+
+// Tenant de los datos anteriores a los tenants: conserva IDs, nombres de instancia y claves de R2
+export const DEFAULT_TENANT = "default";
+
+// Los IDs de vector de otros tenants son `${tenant}/${id}#${chunk}` y Vectorize admite 64 bytes:
+// 10 (tenant) + 1 + 48 (documento) + 1 + 4 (chunk)
+const TENANT_ID_PATTERN = /^[\w\-]{1,10}$/;
+
+export interface TenantConfig {
+	corsOrigins?: string[]; // Sin valor se usan los de CORS_ORIGINS
+}
+
+export interface Tenant {
+	id: string;
+	corsOrigins: string[];
+}
+
+export function isValidTenantId(id: string): boolean {
+	return TENANT_ID_PATTERN.test(id);
+}
+
+// TENANTS se parsea una vez por isolate
+let parsedTenants: { raw: string; tenants: Record<string, TenantConfig> } | null = null;
+
+// Tenants declarados en TENANTS; null si no se declara ninguno (se acepta cualquier tenant de las credenciales)
+export function configuredTenants(env: Env): Record<string, TenantConfig> | null {
+	const raw = env.TENANTS;
+	if (!raw) return null;
+	if (parsedTenants?.raw !== raw) {
+		try {
+			parsedTenants = { raw, tenants: JSON.parse(raw) };
+		} catch (error) {
+			console.error("Invalid TENANTS, no tenant will be accepted:", error);
+			parsedTenants = { raw, tenants: {} };
+		}
+	}
+	return parsedTenants.tenants;
+}
+
+export function defaultCorsOrigins(env: Env): string[] {
+	return env.CORS_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean) ?? ["*"];
+}
+
+// Devuelve el tenant o null si no es válido o no está declarado en TENANTS
+export function resolveTenant(env: Env, id: string): Tenant | null {
+	if (!isValidTenantId(id)) return null;
+
+	const tenants = configuredTenants(env);
+	if (tenants && !tenants[id]) return null;
+
+	return { id, corsOrigins: tenants?.[id]?.corsOrigins ?? defaultCorsOrigins(env) };
+}
+
+/**
+ * Cabeceras CORS para `origin`. Con una lista de orígenes se refleja el
+ * origen permitido (y se añade Vary); un origen no permitido no recibe
+ * Access-Control-Allow-Origin y el navegador bloquea la respuesta.
+ */
+export function corsHeadersFor(origins: string[], origin: string | null): Record<string, string> {
+	const headers: Record<string, string> = {
+		'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+		'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+		'Access-Control-Expose-Headers': 'X-Request-ID, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Daily-Remaining, X-RateLimit-Monthly-Remaining',
+	};
+	if (origins.includes("*")) {
+		headers['Access-Control-Allow-Origin'] = '*';
+	} else {
+		headers['Vary'] = 'Origin';
+		if (origin && origins.includes(origin)) headers['Access-Control-Allow-Origin'] = origin;
+	}
+	return headers;
+}
+
+// El preflight no lleva credenciales: se acepta cualquier origen que algún tenant permita
+export function preflightOrigins(env: Env): string[] {
+	const tenants = configuredTenants(env) ?? {};
+	return [...defaultCorsOrigins(env), ...Object.values(tenants).flatMap(tenant => tenant.corsOrigins ?? [])];
+}
+
+/**
+ * Env con los bindings acotados al tenant, para que el resto del worker
+ * (registro, índice de palabras clave, sesiones, evaluaciones...) no tenga
+ * que conocerlo:
+ * - Vectorize: namespace propio y prefijo en los IDs, que se quita al leer.
+ * - MyAgent: las instancias se nombran `tenant:${id}:${nombre}`.
+ * - R2: las claves viven bajo `tenants/${id}/`.
+ * El tenant por defecto no lleva prefijos ni namespace: sus vectores son los
+ * que ya había antes de los tenants y siguen encontrándose sin re-indexar.
+ */
+export function tenantEnv(env: Env, tenantId: string): Env {
+	const isDefault = tenantId === DEFAULT_TENANT;
+	return {
+		...env,
+		TENANT_ID: tenantId,
+		VECTORIZE: isDefault ? defaultVectorize(env.VECTORIZE) : scopedVectorize(env.VECTORIZE, tenantId, `${tenantId}/`),
+		MyAgent: isDefault ? env.MyAgent : scopedAgents(env.MyAgent, `tenant:${tenantId}:`),
+		R2_BUCKET: isDefault ? env.R2_BUCKET : scopedBucket(env.R2_BUCKET, `tenants/${tenantId}/`)
+	};
+}
+
+// Solo se exponen los métodos con aislamiento por tenant; el resto queda undefined
+function restricted<T extends object>(target: T, scoped: Partial<T>): T {
+	return new Proxy(target, {
+		get(_target, property) {
+			return scoped[property as keyof T];
+		}
+	});
+}
+
+function scopedVectorize(index: Vectorize, namespace: string, prefix: string): Vectorize {
+	const toIndex = (id: string) => prefix + id;
+	const fromIndex = (id: string) => id.startsWith(prefix) ? id.slice(prefix.length) : id;
+	const scopeVectors = (vectors: VectorizeVector[]) => vectors.map(vector => ({ ...vector, id: toIndex(vector.id), namespace }));
+	const unscopeMatches = ({ matches, count }: VectorizeMatches): VectorizeMatches => ({
+		matches: matches.map(match => ({ ...match, id: fromIndex(match.id) })),
+		count
+	});
+
+	return restricted(index, {
+		describe: () => index.describe(),
+		query: async (vector, options) => unscopeMatches(await index.query(vector, { ...options, namespace })),
+		queryById: async (vectorId, options) => unscopeMatches(await index.queryById(toIndex(vectorId), { ...options, namespace })),
+		insert: vectors => index.insert(scopeVectors(vectors)),
+		upsert: vectors => index.upsert(scopeVectors(vectors)),
+		deleteByIds: ids => index.deleteByIds(ids.map(toIndex)),
+		// getByIds no filtra por namespace, pero el prefijo ya evita leer vectores de otro tenant
+		getByIds: async ids => (await index.getByIds(ids.map(toIndex))).map(vector => ({ ...vector, id: fromIndex(vector.id) }))
+	});
+}
+
+/**
+ * Índice del tenant por defecto. Sin namespace, query recorre también los de
+ * los demás tenants: se descartan sus vectores, reconocibles por el prefijo
+ * `${tenantId}/` (los IDs de documento no admiten '/'). Si ocupan posiciones
+ * del topK la consulta puede devolver menos resultados.
+ */
+function defaultVectorize(index: Vectorize): Vectorize {
+	const isOwn = (id: string) => !id.includes("/");
+	const ownMatches = ({ matches }: VectorizeMatches): VectorizeMatches => {
+		const own = matches.filter(match => isOwn(match.id));
+		return { matches: own, count: own.length };
+	};
+
+	return restricted(index, {
+		describe: () => index.describe(),
+		query: async (vector, options) => ownMatches(await index.query(vector, options)),
+		queryById: async (vectorId, options) => ownMatches(await index.queryById(vectorId, options)),
+		insert: vectors => index.insert(vectors),
+		upsert: vectors => index.upsert(vectors),
+		deleteByIds: ids => index.deleteByIds(ids),
+		getByIds: ids => index.getByIds(ids)
+	});
+}
+
+function scopedAgents(namespace: DurableObjectNamespace, prefix: string): DurableObjectNamespace {
+	const idFromName = (name: string) => namespace.idFromName(prefix + name);
+	return restricted(namespace, {
+		idFromName,
+		get: (id, options) => namespace.get(id, options),
+		getByName: (name, options) => namespace.get(idFromName(name), options)
+	});
+}
+
+function scopedBucket(bucket: R2Bucket, prefix: string): R2Bucket {
+	return restricted(bucket, {
+		head: key => bucket.head(prefix + key),
+		get: ((key: string, options?: R2GetOptions) => bucket.get(prefix + key, options)) as R2Bucket['get'],
+		put: ((key: string, value: Parameters<R2Bucket['put']>[1], options?: R2PutOptions) => bucket.put(prefix + key, value, options)) as R2Bucket['put'],
+		delete: keys => bucket.delete(Array.isArray(keys) ? keys.map(key => prefix + key) : prefix + keys)
+	});
+}
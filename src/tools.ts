@@ -0,0 +1,211 @@
+// Registro tipado de herramientas para el modo agente de /chat y las herramientas incluidas
+import type { ToolDefinition } from './llm';
+import { DocumentRegistry } from './registry';
+import { retrieve } from './retrieval';
+import { agentStub } from './sessions';
+import { metadataString, parentIdOf } from './sources';
+import { chunkVectorIds } from './indexing';
+import type { Env, Interaction } from './types';
+
+// Los resultados se recortan para que una herramienta no agote el presupuesto de tokens
+const MAX_RESULT_CHARS = 4000;
+
+export interface ToolContext {
+	env: Env;
+	sessionId?: string;
+}
+
+// Subconjunto de JSON Schema que entienden los modelos para los argumentos
+export interface ToolParameters {
+	type: 'object';
+	properties: Record<string, { type: 'string' | 'integer' | 'number' | 'boolean'; description: string; enum?: string[] }>;
+	required?: string[];
+}
+
+export interface Tool<Args = Record<string, unknown>> {
+	name: string;
+	description: string;
+	parameters: ToolParameters;
+	execute(args: Args, context: ToolContext): Promise<unknown>;
+}
+
+export interface ToolResult {
+	content: string; // JSON que se devuelve al modelo
+	error?: string;
+}
+
+// Ayuda a inferir el tipo de los argumentos al declarar una herramienta
+export function defineTool<Args>(tool: Tool<Args>): Tool<Args> {
+	return tool;
+}
+
+export class ToolRegistry {
+	// Los argumentos llegan del modelo sin tipo: call() solo comprueba los requeridos antes de ejecutar
+	private tools = new Map<string, Tool<unknown>>();
+
+	register<Args>(tool: Tool<Args>): this {
+		if (this.tools.has(tool.name)) {
+			throw new Error(`Tool "${tool.name}" is already registered`);
+		}
+		this.tools.set(tool.name, tool);
+		return this;
+	}
+
+	has(name: string): boolean {
+		return this.tools.has(name);
+	}
+
+	definitions(): ToolDefinition[] {
+		return [...this.tools.values()].map(tool => ({
+			type: 'function',
+			function: { name: tool.name, description: tool.description, parameters: { ...tool.parameters } }
+		}));
+	}
+
+	/**
+	 * Ejecuta la herramienta con los argumentos que generó el modelo. Los
+	 * errores se devuelven como resultado para que el modelo pueda corregirse
+	 * en el siguiente paso en lugar de abortar el bucle.
+	 */
+	async call(name: string, rawArguments: string, context: ToolContext): Promise<ToolResult> {
+		const tool = this.tools.get(name);
+		if (!tool) {
+			return this.failure(`Unknown tool "${name}"`);
+		}
+
+		let args: Record<string, unknown>;
+		try {
+			args = rawArguments ? JSON.parse(rawArguments) : {};
+		} catch {
+			return this.failure(`Invalid JSON arguments for "${name}"`);
+		}
+
+		const missing = (tool.parameters.required ?? []).filter(field => args[field] === undefined || args[field] === null);
+		if (missing.length > 0) {
+			return this.failure(`Missing required arguments for "${name}": ${missing.join(", ")}`);
+		}
+
+		try {
+			const result = await tool.execute(args, context);
+			const content = JSON.stringify(result);
+			return {
+				content: content.length > MAX_RESULT_CHARS ? content.substring(0, MAX_RESULT_CHARS) + "...(truncated)" : content
+			};
+		} catch (error) {
+			return this.failure(error instanceof Error ? error.message : "Unknown error");
+		}
+	}
+
+	private failure(error: string): ToolResult {
+		return { content: JSON.stringify({ error }), error };
+	}
+}
+
+export const searchKnowledgeBaseTool = defineTool<{ query: string; topK?: number }>({
+	name: "search_knowledge_base",
+	description: "Search the knowledge base for passages relevant to a query. Returns the best matching chunks with their document ID, title and content.",
+	parameters: {
+		type: 'object',
+		properties: {
+			query: { type: 'string', description: "What to search for, phrased as a question or keywords" },
+			topK: { type: 'integer', description: "Number of passages to return (1-10, default 5)" }
+		},
+		required: ["query"]
+	},
+	async execute({ query, topK = 5 }, { env }) {
+		const { matches } = await retrieve(env, query, { topK: Math.min(Math.max(Math.floor(topK), 1), 10) });
+		return matches.map(match => ({
+			chunkId: match.id,
+			documentId: parentIdOf(match),
+			title: metadataString(match, 'title'),
+			score: match.score,
+			content: metadataString(match, 'content')
+		}));
+	}
+});
+
+export const getDocumentTool = defineTool<{ id: string }>({
+	name: "get_document",
+	description: "Fetch a knowledge base document by ID, with its metadata and the text of its first chunks.",
+	parameters: {
+		type: 'object',
+		properties: {
+			id: { type: 'string', description: "Document ID, e.g. the documentId returned by search_knowledge_base" }
+		},
+		required: ["id"]
+	},
+	async execute({ id }, { env }) {
+		const document = await new DocumentRegistry(env).get(id);
+		if (!document) {
+			return { error: `Document "${id}" not found` };
+		}
+
+		// Vectorize devuelve como máximo 20 vectores por llamada a getByIds
+		const vectors = await env.VECTORIZE.getByIds(chunkVectorIds(id, 0, Math.min(document.chunkCount, 20)));
+		const content = vectors
+			.sort((a, b) => Number(a.metadata?.chunkIndex ?? 0) - Number(b.metadata?.chunkIndex ?? 0))
+			.map(vector => String(vector.metadata?.content ?? ""))
+			.filter(Boolean)
+			.join("\n\n");
+
+		return {
+			id: document.id,
+			title: document.title,
+			source: document.source,
+			updatedAt: document.updatedAt,
+			chunkCount: document.chunkCount,
+			content
+		};
+	}
+});
+
+export const conversationHistoryTool = defineTool<{ limit?: number; query?: string }>({
+	name: "get_conversation_history",
+	description: "Look up earlier questions and answers of this conversation, optionally filtered by a text query.",
+	parameters: {
+		type: 'object',
+		properties: {
+			limit: { type: 'integer', description: "Number of interactions to return, newest first (1-20, default 5)" },
+			query: { type: 'string', description: "Only return interactions whose question or answer contains this text" }
+		}
+	},
+	async execute({ limit = 5, query }, { env, sessionId }) {
+		const params = new URLSearchParams({ limit: String(Math.min(Math.max(Math.floor(limit), 1), 20)) });
+		if (query) params.set("q", query);
+
+		const response = await agentStub(env, sessionId).fetch(`https://agent.internal/history?${params}`);
+		if (!response.ok) {
+			throw new Error(`Agent history error: ${response.status}`);
+		}
+		const { history } = await response.json() as { history: Interaction[] };
+		return history.map(({ question, answer, timestamp }) => ({ question, answer, timestamp }));
+	}
+});
+
+export const currentDateTimeTool = defineTool<{ timeZone?: string }>({
+	name: "get_current_datetime",
+	description: "Get the current date and time, optionally in a given IANA time zone.",
+	parameters: {
+		type: 'object',
+		properties: {
+			timeZone: { type: 'string', description: "IANA time zone such as Europe/Madrid or America/Mexico_City (default UTC)" }
+		}
+	},
+	async execute({ timeZone = "UTC" }) {
+		const now = new Date();
+		return {
+			iso: now.toISOString(),
+			timeZone,
+			local: now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" })
+		};
+	}
+});
+
+// Registro por defecto del modo agente; para añadir una herramienta basta con registrarla aquí
+export function defaultToolRegistry(): ToolRegistry {
+	return new ToolRegistry()
+		.register(searchKnowledgeBaseTool)
+		.register(getDocumentTool)
+		.register(conversationHistoryTool)
+		.register(currentDateTimeTool);
+}
@@ -0,0 +1,141 @@
+// Trazas por petición: request ID, duración de cada etapa del pipeline y logs JSON estructurados
+import type { Env } from './types';
+
+export const REQUEST_ID_HEADER = "X-Request-ID";
+
+// Un request ID recibido del cliente (o de un proxy) se respeta si tiene este formato
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export interface StageTiming {
+	stage: string; // "retrieval" o, dentro de otra etapa, "retrieval.embedding"
+	startMs: number; // Desde el inicio de la petición
+	durationMs: number;
+}
+
+// Mensajes enviados a un modelo de chat y la etapa en la que se enviaron
+export interface PromptRecord {
+	stage: string;
+	messages: unknown[];
+}
+
+// Respuesta de `debug: true` en /chat
+export interface DebugInfo {
+	requestId: string;
+	totalMs: number;
+	stages: Record<string, number>;
+	timings: StageTiming[];
+	prompts: PromptRecord[];
+}
+
+// Percentiles de latencia de una etapa en /agent/stats
+export interface StageLatency {
+	stage: string;
+	count: number;
+	p50Ms: number;
+	p95Ms: number;
+}
+
+export function requestIdFrom(request: Request): string {
+	const received = request.headers.get(REQUEST_ID_HEADER);
+	return received && REQUEST_ID_PATTERN.test(received) ? received : crypto.randomUUID();
+}
+
+// Una línea JSON por evento: Workers Logs indexa sus campos
+export function logEvent(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+	const line = JSON.stringify({ level, message, timestamp: new Date().toISOString(), ...fields });
+	if (level === 'error') console.error(line);
+	else if (level === 'warn') console.warn(line);
+	else console.log(line);
+}
+
+/**
+ * Mide las etapas de una petición. Viaja en env.TRACE, como el medidor de
+ * uso. Las etapas de /chat son secuenciales (history, cache, routing,
+ * retrieval, completion...); lo que se mide mientras una está abierta queda
+ * como subetapa suya ("routing.embedding", "retrieval.vector_query"), así una
+ * etapa no cuenta dos veces aunque las subetapas se ejecuten en paralelo.
+ */
+export class RequestTrace {
+	readonly timings: StageTiming[] = [];
+	readonly prompts: PromptRecord[] = [];
+	private readonly startedAt = Date.now();
+	private open: string | null = null;
+
+	constructor(readonly requestId: string) {}
+
+	// Empieza una etapa y devuelve la función que la cierra
+	start(stage: string): () => void {
+		const parent = this.open;
+		if (parent === null) this.open = stage;
+		const startedAt = Date.now();
+
+		return () => {
+			if (parent === null) this.open = null;
+			this.timings.push({
+				stage: parent === null ? stage : `${parent}.${stage}`,
+				startMs: startedAt - this.startedAt,
+				durationMs: Date.now() - startedAt
+			});
+		};
+	}
+
+	async time<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+		const end = this.start(stage);
+		try {
+			return await fn();
+		} finally {
+			end();
+		}
+	}
+
+	// Copia de los mensajes: el bucle del agente sigue añadiendo a los suyos
+	recordPrompt(messages: unknown[]): void {
+		this.prompts.push({ stage: this.open ?? "request", messages: [...messages] });
+	}
+
+	elapsedMs(): number {
+		return Date.now() - this.startedAt;
+	}
+
+	// Duración total por etapa: una etapa puede repetirse (varias completions del agente)
+	stages(): Record<string, number> {
+		const totals: Record<string, number> = {};
+		for (const { stage, durationMs } of this.timings) {
+			totals[stage] = (totals[stage] ?? 0) + durationMs;
+		}
+		return totals;
+	}
+
+	// Etapas y duración total hasta ahora, lo que se guarda con la interacción
+	summary(): Record<string, number> {
+		return { ...this.stages(), total: this.elapsedMs() };
+	}
+
+	debugInfo(): DebugInfo {
+		return {
+			requestId: this.requestId,
+			totalMs: this.elapsedMs(),
+			stages: this.stages(),
+			timings: this.timings,
+			prompts: this.prompts
+		};
+	}
+
+	log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+		logEvent(level, message, { requestId: this.requestId, ...fields });
+	}
+}
+
+// Mide `fn` como etapa de la petición; sin traza (Durable Object, tests) solo la ejecuta
+export function traced<T>(env: Env, stage: string, fn: () => Promise<T>): Promise<T> {
+	return env.TRACE ? env.TRACE.time(stage, fn) : fn();
+}
+
+// Percentil por rango más cercano sobre valores ordenados de menor a mayor
+export function percentile(sorted: number[], p: number): number {
+	if (sorted.length === 0) return 0;
+	const rank = Math.ceil((p / 100) * sorted.length);
+	return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
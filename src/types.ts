@@ -0,0 +1,133 @@
+// Tipos compartidos por el worker y el Durable Object
+import type { Context } from 'hono';
+import type { AuthContext } from './auth';
+import type { RequestTrace } from './tracing';
+import type { UsageMeter } from './usage';
+
+export interface Env {
+	VECTORIZE: Vectorize;
+	AI: Ai;
+	// Bucket R2 con los archivos originales de la base de conocimientos
+	R2_BUCKET: R2Bucket;
+	// Binding para el Durable Object del Agent (usando el nombre de tu toml)
+	MyAgent: DurableObjectNamespace;
+	AZURE_OPENAI_ENDPOINT: string;
+	AZURE_OPENAI_API_VERSION: string;
+	AZURE_OPENAI_DEPLOYMENT_NAME: string;
+	AZURE_OPENAI_API_KEY?: string; // This should match your secret name
+	// Proveedores de chat en orden de fallback: "azure-openai", "workers-ai", "openai-compatible", "local"
+	CHAT_PROVIDERS?: string;
+	CHAT_TIMEOUT_MS?: string; // Timeout por llamada al modelo
+	CHAT_MAX_RETRIES?: string; // Reintentos por proveedor ante 429/5xx/timeout
+	WORKERS_AI_CHAT_MODEL?: string;
+	OPENAI_COMPATIBLE_BASE_URL?: string; // p. ej. https://api.openai.com/v1
+	OPENAI_COMPATIBLE_MODEL?: string;
+	OPENAI_COMPATIBLE_API_KEY?: string; // Secret
+	// Proveedor de embeddings: "workers-ai" (por defecto), "azure-openai" o "local"
+	EMBEDDING_PROVIDER?: "workers-ai" | "azure-openai" | "local";
+	EMBEDDING_MODEL?: string; // Modelo de Workers AI
+	AZURE_OPENAI_EMBEDDING_DEPLOYMENT?: string;
+	AZURE_OPENAI_EMBEDDING_DIMENSIONS?: string;
+	VECTORIZE_INDEXED_FIELDS?: string; // Campos con metadata index en Vectorize, separados por comas
+	RETRIEVAL_MODE?: string; // Modo por defecto de /search y /chat: "vector" | "keyword" | "hybrid"
+	DEFAULT_LANGUAGE?: string; // Idioma cuando no se puede detectar el de la pregunta: "es" | "en" | "pt"
+	ROUTING_STRATEGY?: string; // Pasos del router en orden: "keyword", "probe", "llm" (p. ej. "keyword,probe,llm")
+	ROUTING_PROBE_RAG_SCORE?: string; // Score de la sonda a partir del cual se usa RAG
+	ROUTING_PROBE_GENERAL_SCORE?: string; // Score de la sonda por debajo del cual se responde sin RAG
+	ROUTING_CACHE_TTL_SECONDS?: string; // 0 desactiva la caché de decisiones
+	ROUTING_KEYWORDS?: string; // JSON por idioma: {"en": {"rag": [...], "general": [...]}}
+	// Caché semántica de respuestas de /chat
+	ANSWER_CACHE_THRESHOLD?: string; // Similitud coseno mínima entre preguntas (0.95 por defecto)
+	ANSWER_CACHE_TTL_SECONDS?: string; // 0 desactiva la caché de respuestas
+	ANSWER_CACHE_MAX_ENTRIES?: string; // Entradas por tenant; se descartan las más antiguas
+	RERANKER_MODEL?: string; // Cross-encoder de Workers AI ("none" para desactivar el reranking)
+	RERANK_CANDIDATES?: string; // Candidatos de la primera etapa que se reordenan
+	RELEVANCE_THRESHOLD?: string; // Score mínimo (rerank o coseno) para entrar en el contexto
+	CONTEXT_TOKEN_BUDGET?: string; // Tokens máximos de contexto en el prompt de /chat
+	AGENT_MAX_STEPS?: string; // Llamadas al modelo por pregunta en el modo agente
+	AGENT_TOKEN_BUDGET?: string; // Tokens (entrada + salida) por pregunta en el modo agente
+	// Autenticación: API_KEYS es un secret JSON {"<sha256 de la key>": {"tenant": "acme", "scope": "read" | "ingest" | "admin"}}
+	API_KEYS?: string;
+	JWT_SECRET?: string; // Secret HS256; el JWT lleva los claims `tenant` y `scope`
+	JWT_ISSUER?: string;
+	JWT_AUDIENCE?: string;
+	AUTH_DISABLED?: string; // "true" solo en desarrollo: todo va al tenant por defecto
+	TENANTS?: string; // JSON {"acme": {"corsOrigins": ["https://app.acme.com"]}}; sin valor se acepta cualquier tenant
+	CORS_ORIGINS?: string; // Orígenes separados por comas ("*" por defecto)
+	TENANT_ID?: string; // Lo fija tenantEnv() tras autenticar, no se configura
+	USAGE?: UsageMeter; // Medidor de tokens de la petición, tampoco se configura
+	TRACE?: RequestTrace; // Etapas medidas de la petición, tampoco se configura
+	MODEL_PRICES?: string; // JSON {"<modelo>": {"input": USD por 1M tokens, "output": ...}} para estimar costes
+	// Rate limiting por cliente en /chat, /search, /insert... (token bucket) y cuotas en peticiones; 0 = sin cuota
+	RATE_LIMIT_CAPACITY?: string;
+	RATE_LIMIT_REFILL_PER_MINUTE?: string;
+	QUOTA_DAILY?: string;
+	QUOTA_MONTHLY?: string;
+	HISTORY_TURNS?: string; // Turnos previos de la sesión que se incluyen en el prompt
+	HISTORY_MAX_ENTRIES?: string; // Retención del historial por sesión (sin valor: sin límite)
+	HISTORY_RETENTION_DAYS?: string;
+	// Modo local: "true" sustituye Workers AI, Vectorize y los proveedores de chat por los de local.ts
+	LOCAL_MODE?: string;
+	LOCAL_CHAT_SCRIPT?: string; // JSON [{"match": "<regex>", "reply": "...", "route": "RAG" | "GENERAL"}]
+}
+
+// Updated interface to match Cloudflare AI's actual response type
+export interface EmbeddingResponse {
+	shape?: number[];
+	data?: number[][];
+	pooling?: "mean" | "cls";
+}
+
+// Proper Azure OpenAI response interface
+export interface AzureOpenAIResponse {
+	choices: {
+		message: {
+			content: string;
+		};
+		finish_reason: string;
+	}[];
+	usage?: TokenUsage;
+}
+
+export interface TokenUsage {
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+}
+
+export interface ChatMessage {
+	role: "system" | "user" | "assistant";
+	content: string;
+}
+
+export interface Interaction {
+	id?: number;
+	sessionId?: string; // Sesión de origen, en la copia de todas las sesiones del tenant
+	question: string;
+	answer: string;
+	usedRAG: boolean;
+	route?: string; // "RAG", "GENERAL" o "AGENT"; las interacciones anteriores solo tienen usedRAG
+	sources?: InteractionSource[];
+	timings?: Record<string, number>; // ms por etapa del pipeline y `total`, para los percentiles de /agent/stats
+	timestamp: string;
+}
+
+// Documento recuperado para una interacción, para analizar la calidad por fuente
+export interface InteractionSource {
+	documentId: string;
+	title?: string;
+	score: number;
+	inContext: boolean; // Aportó chunks al prompt
+	cited: boolean;
+}
+
+// Variables que el middleware deja en el contexto de Hono para los endpoints
+export interface AppVariables {
+	env: Env; // Bindings acotados al tenant, con el medidor de uso y la traza; c.env son los bindings sin acotar
+	auth: AuthContext | null; // null en las rutas públicas (/, /health, /docs, /openapi.json)
+	responseHeaders: Record<string, string>; // CORS y rate limit, se añaden a todas las respuestas
+}
+
+export type AppEnv = { Bindings: Env; Variables: AppVariables };
+
+export type AppContext = Context<AppEnv>;
@@ -0,0 +1,193 @@
+// Contabilidad de tokens y llamadas a modelos, agregada por día, modelo y ruta en el Durable Object MyAgent
+import type { Env, TokenUsage } from './types';
+
+// Instancia del Durable Object con los agregados (una por tenant, vía tenantEnv)
+export const USAGE_AGENT = "usage";
+
+export type UsageKind = 'chat' | 'embedding';
+
+export interface UsageEvent {
+	kind: UsageKind;
+	route: string; // "routing", "cache", "RAG", "GENERAL", "AGENT" o la ruta HTTP ("/search", "/insert"...)
+	provider: string;
+	model: string;
+	calls: number;
+	inputs: number; // Mensajes (chat) o textos (embeddings) enviados
+	promptTokens: number;
+	completionTokens: number;
+}
+
+// Una fila agregada: la suma de los eventos de un día con el mismo tipo, ruta y modelo
+export interface UsageRow extends UsageEvent {
+	day: string; // YYYY-MM-DD (UTC)
+}
+
+// Precios en USD por millón de tokens
+export interface ModelPrice {
+	input: number;
+	output?: number;
+}
+
+export interface UsageTotals {
+	calls: number;
+	chatCalls: number;
+	embeddingCalls: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	estimatedCost: number | null; // null si ningún modelo usado tiene precio en MODEL_PRICES
+}
+
+export interface UsageSummary {
+	from?: string;
+	to?: string;
+	totals: UsageTotals;
+	byDay: (UsageTotals & { day: string })[];
+	byModel: (UsageTotals & { provider: string; model: string })[];
+	byRoute: (UsageTotals & { route: string })[];
+	unpricedModels: string[];
+}
+
+/**
+ * Acumula el uso de una petición (o de un job de ingesta). Cada llamada a un
+ * modelo se envía al Durable Object en segundo plano (ctx.waitUntil) para no
+ * añadir latencia. Viaja en env.USAGE; las llamadas que no tienen medidor no
+ * se contabilizan.
+ */
+export class UsageMeter {
+	constructor(
+		private store: UsageStore,
+		private ctx: Pick<ExecutionContext, 'waitUntil'>,
+		readonly route: string
+	) {}
+
+	// Mismo destino con otra ruta: el router, la respuesta RAG, el agente...
+	withRoute(route: string): UsageMeter {
+		return new UsageMeter(this.store, this.ctx, route);
+	}
+
+	record(event: Omit<UsageEvent, 'route'>): void {
+		this.ctx.waitUntil(this.store.add({ ...event, route: this.route }).catch(error => {
+			console.error("Failed to record usage:", error);
+		}));
+	}
+}
+
+// Env cuyas llamadas a modelos se cargan a `route`
+export function withUsageRoute(env: Env, route: string): Env {
+	return env.USAGE ? { ...env, USAGE: env.USAGE.withRoute(route) } : env;
+}
+
+export function recordChatUsage(env: Env, provider: string, model: string, inputs: number, usage?: TokenUsage): void {
+	env.USAGE?.record({
+		kind: 'chat',
+		provider,
+		model,
+		calls: 1,
+		inputs,
+		promptTokens: usage?.prompt_tokens ?? 0,
+		completionTokens: usage?.completion_tokens ?? 0
+	});
+}
+
+// MODEL_PRICES se parsea una vez por isolate
+let parsedPrices: { raw: string; prices: Record<string, ModelPrice> } | null = null;
+
+export function modelPrices(env: Env): Record<string, ModelPrice> {
+	const raw = env.MODEL_PRICES;
+	if (!raw) return {};
+	if (parsedPrices?.raw !== raw) {
+		try {
+			parsedPrices = { raw, prices: JSON.parse(raw) };
+		} catch (error) {
+			console.error("Invalid MODEL_PRICES, costs will not be estimated:", error);
+			parsedPrices = { raw, prices: {} };
+		}
+	}
+	return parsedPrices.prices;
+}
+
+function cost(row: UsageEvent, prices: Record<string, ModelPrice>): number | null {
+	const price = prices[row.model];
+	if (!price) return null;
+	return (row.promptTokens * price.input + row.completionTokens * (price.output ?? 0)) / 1_000_000;
+}
+
+function totals(rows: UsageEvent[], prices: Record<string, ModelPrice>): UsageTotals {
+	const costs = rows.map(row => cost(row, prices)).filter((value): value is number => value !== null);
+	const promptTokens = rows.reduce((sum, row) => sum + row.promptTokens, 0);
+	const completionTokens = rows.reduce((sum, row) => sum + row.completionTokens, 0);
+	return {
+		calls: rows.reduce((sum, row) => sum + row.calls, 0),
+		chatCalls: rows.filter(row => row.kind === 'chat').reduce((sum, row) => sum + row.calls, 0),
+		embeddingCalls: rows.filter(row => row.kind === 'embedding').reduce((sum, row) => sum + row.calls, 0),
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
+		estimatedCost: costs.length > 0 ? Number(costs.reduce((sum, value) => sum + value, 0).toFixed(6)) : null
+	};
+}
+
+function groupBy<K extends string>(rows: UsageRow[], key: (row: UsageRow) => K): Map<K, UsageRow[]> {
+	const groups = new Map<K, UsageRow[]>();
+	for (const row of rows) {
+		const value = key(row);
+		groups.set(value, [...(groups.get(value) ?? []), row]);
+	}
+	return groups;
+}
+
+/**
+ * Resume las filas diarias. El coste se calcula al consultar con los precios
+ * actuales de MODEL_PRICES, así que cambiar un precio recalcula también los
+ * días anteriores.
+ */
+export function summarizeUsage(rows: UsageRow[], prices: Record<string, ModelPrice>, range: { from?: string; to?: string } = {}): UsageSummary {
+	return {
+		...range,
+		totals: totals(rows, prices),
+		byDay: [...groupBy(rows, row => row.day)].map(([day, group]) => ({ day, ...totals(group, prices) })),
+		byModel: [...groupBy(rows, row => `${row.provider}\n${row.model}`)].map(([, group]) => ({
+			provider: group[0].provider,
+			model: group[0].model,
+			...totals(group, prices)
+		})),
+		byRoute: [...groupBy(rows, row => row.route)].map(([route, group]) => ({ route, ...totals(group, prices) })),
+		unpricedModels: [...new Set(rows.map(row => row.model))].filter(model => !prices[model])
+	};
+}
+
+export class UsageStore {
+	private stub: DurableObjectStub;
+
+	constructor(env: Env) {
+		this.stub = env.MyAgent.get(env.MyAgent.idFromName(USAGE_AGENT));
+	}
+
+	async add(event: UsageEvent): Promise<void> {
+		await this.call("/usage", {
+			method: "POST",
+			body: JSON.stringify({ day: new Date().toISOString().slice(0, 10), ...event })
+		});
+	}
+
+	// Filas de los días entre `from` y `to` (YYYY-MM-DD, ambos incluidos)
+	async query(from?: string, to?: string): Promise<UsageRow[]> {
+		const params = new URLSearchParams();
+		if (from) params.set("from", from);
+		if (to) params.set("to", to);
+		const { rows } = await this.call<{ rows: UsageRow[] }>(`/usage?${params}`);
+		return rows;
+	}
+
+	private async call<T>(path: string, init: RequestInit = {}): Promise<T> {
+		const response = await this.stub.fetch(`https://agent.internal${path}`, {
+			...init,
+			headers: { "Content-Type": "application/json" }
+		});
+		if (!response.ok) {
+			throw new Error(`Usage store error: ${response.status} - ${await response.text()}`);
+		}
+		return response.json() as Promise<T>;
+	}
+}
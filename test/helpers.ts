@@ -0,0 +1,73 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import type { z } from 'zod';
+import type { Feedback, FeedbackStats, RatedInteraction } from '../src/feedback';
+import worker from '../src/index';
+import type { IndexedDocument } from '../src/indexing';
+import type { IngestionJob, JobStatus } from '../src/jobs';
+import type { DocumentRecord } from '../src/registry';
+import type { RoutingDecision } from '../src/routing';
+import type { ChatResponse, SearchResponse } from '../src/schemas';
+import type { StageLatency } from '../src/tracing';
+import type { Env, Interaction } from '../src/types';
+
+// Respuestas de la API con los campos que comprueban los tests
+export type ChatResult = z.infer<typeof ChatResponse> & { historyTurnsUsed?: number };
+export type SearchResult = z.infer<typeof SearchResponse>;
+export interface InsertResult { success: boolean; inserted: number; chunks: number; documents: IndexedDocument[] }
+export interface DocumentResult { document: DocumentRecord; fileUrl?: string; chunks: { id: string; content: string }[] }
+export interface JobCreatedResult { jobId: string; status: JobStatus; statusUrl: string }
+export interface JobResult { job: IngestionJob }
+export interface RoutingResult { question: string; routing: RoutingDecision }
+export interface HistoryResult { history: Interaction[] }
+export interface FeedbackResult { feedback: Feedback }
+export interface LowestRatedResult { interactions: RatedInteraction[] }
+export interface StatsResult { totalInteractions: number; feedback: FeedbackStats; latency: StageLatency[] }
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+/**
+ * Llama al worker en modo local y espera a los waitUntil (uso, caché de
+ * respuestas) antes de comprobar nada. El cuerpo se lee antes: en streaming
+ * el waitUntil no termina hasta que alguien consume el stream.
+ */
+export async function call(method: string, path: string, body?: unknown, overrides: Partial<Env> = {}): Promise<Response> {
+	// Un FormData se envía tal cual (multipart); el resto como JSON
+	const json = body !== undefined && !(body instanceof FormData);
+	const request = new IncomingRequest(`https://rag.test${path}`, {
+		method,
+		headers: json ? { "Content-Type": "application/json" } : {},
+		body: json ? JSON.stringify(body) : body as FormData | undefined
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, { ...env, ...overrides }, ctx);
+	const buffered = new Response(await response.arrayBuffer(), response);
+	await waitOnExecutionContext(ctx);
+	return buffered;
+}
+
+export async function callJson<T = unknown>(method: string, path: string, body?: unknown, overrides: Partial<Env> = {}): Promise<T> {
+	const response = await call(method, path, body, overrides);
+	if (!response.ok) {
+		throw new Error(`${method} ${path} returned ${response.status}: ${await response.text()}`);
+	}
+	return response.json() as Promise<T>;
+}
+
+export const DOCUMENTS = [
+	{
+		id: "vacation-policy",
+		title: "Vacation policy",
+		source: "handbook",
+		content: "Employees receive twenty five vacation days per year. Unused vacation days expire at the end of March."
+	},
+	{
+		id: "expense-policy",
+		title: "Expense policy",
+		source: "finance",
+		content: "Travel expenses are reimbursed within thirty days. Receipts must be uploaded to the expense portal."
+	}
+];
+
+export function insertDocuments(documents = DOCUMENTS) {
+	return callJson<InsertResult>("POST", "/insert", { documents });
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { callJson, insertDocuments, type ChatResult, type FeedbackResult, type HistoryResult, type LowestRatedResult, type StatsResult } from './helpers';
+
+describe('conversation history in local mode', () => {
+	it('stores each answer in the session history, newest first', async () => {
+		await insertDocuments();
+		const first = await callJson<ChatResult>("POST", "/chat", { question: "How many vacation days do employees receive?", forceRAG: true, sessionId: "alice" });
+		await callJson("POST", "/chat", { question: "When are travel expenses reimbursed?", forceRAG: true, sessionId: "alice" });
+
+		const { history } = await callJson<HistoryResult>("GET", "/agent/history?sessionId=alice");
+		expect(history.map(interaction => interaction.question)).toEqual([
+			"When are travel expenses reimbursed?",
+			"How many vacation days do employees receive?"
+		]);
+		expect(history[1]).toMatchObject({ id: first.interactionId, usedRAG: true, route: "RAG" });
+
+		// Otra sesión no ve las interacciones de alice
+		const other = await callJson<HistoryResult>("GET", "/agent/history?sessionId=bob");
+		expect(other.history).toEqual([]);
+	});
+
+	it('includes the previous turns of the session in the prompt', async () => {
+		await insertDocuments();
+		await callJson("POST", "/chat", { question: "How many vacation days do employees receive?", forceRAG: true, sessionId: "carol" });
+
+		const followUp = await callJson<ChatResult>("POST", "/chat", { question: "And when do they expire?", forceRAG: true, sessionId: "carol", debug: true });
+		expect(followUp.historyTurnsUsed).toBe(1);
+
+		const completion = followUp.debug?.prompts.find(prompt => prompt.stage === "completion");
+		expect(JSON.stringify(completion?.messages)).toContain("How many vacation days do employees receive?");
+	});
+
+	it('records stage timings and feedback for the session stats', async () => {
+		await insertDocuments();
+		const { interactionId } = await callJson<ChatResult>("POST", "/chat", { question: "When are travel expenses reimbursed?", forceRAG: true, sessionId: "dave" });
+
+		const { feedback } = await callJson<FeedbackResult>("POST", "/feedback", { interactionId, sessionId: "dave", rating: 5 });
+		expect(feedback).toMatchObject({ interactionId, rating: 5 });
+
+		const stats = await callJson<StatsResult>("GET", "/agent/stats?sessionId=dave");
+		expect(stats.totalInteractions).toBe(1);
+		expect(stats.latency.map(latency => latency.stage)).toContain("retrieval");
+	});
+
+	it('collects the feedback and timings of every session for the tenant-wide analytics', async () => {
+		await insertDocuments();
+		const erin = await callJson<ChatResult>("POST", "/chat", { question: "How many vacation days do employees receive?", forceRAG: true, sessionId: "erin" });
+		const frank = await callJson<ChatResult>("POST", "/chat", { question: "When are travel expenses reimbursed?", forceRAG: true, sessionId: "frank" });
+		await callJson("POST", "/feedback", { interactionId: erin.interactionId, sessionId: "erin", rating: 2 });
+		await callJson("POST", "/feedback", { interactionId: frank.interactionId, sessionId: "frank", rating: 1 });
+
+		// Sin sessionId se listan las de todas las sesiones, cada una con su sesión e ID de origen
+		const { interactions } = await callJson<LowestRatedResult>("GET", "/feedback/lowest");
+		expect(interactions.map(({ id, sessionId, feedback }) => ({ id, sessionId, rating: feedback.rating }))).toEqual([
+			{ id: frank.interactionId, sessionId: "frank", rating: 1 },
+			{ id: erin.interactionId, sessionId: "erin", rating: 2 }
+		]);
+		expect(interactions[0].sources?.[0]).toMatchObject({ documentId: "expense-policy", inContext: true });
+
+		const { totalInteractions, feedback, latency } = await callJson<StatsResult>("GET", "/agent/stats");
+		expect(totalInteractions).toBe(2);
+		expect(feedback).toMatchObject({ rated: 2, satisfaction: 0 });
+		expect(feedback.bySource.map(source => source.documentId).sort()).toEqual(["expense-policy", "vacation-policy"]);
+		// Los percentiles de latencia también cubren todas las sesiones
+		expect(latency.find(stage => stage.stage === "retrieval")?.count).toBe(2);
+	});
+});
@@ -0,0 +1,126 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import type { MyAgent } from '../src/agent';
+import { resolveChunkOptions } from '../src/chunking';
+import { ingestionBatch, JOBS_AGENT, MAX_JOB_ATTEMPTS, runIngestionBatch, type IngestionJob } from '../src/jobs';
+import { localEnv } from '../src/local';
+import type { Env } from '../src/types';
+import { call, callJson, DOCUMENTS, type JobCreatedResult, type JobResult, type SearchResult } from './helpers';
+
+// Las alarmas de MyAgent se disparan solas: se consulta el job hasta que deja de estar en cola o en curso
+async function waitForJob(jobId: string) {
+	return vi.waitFor(async () => {
+		const { job } = await callJson<JobResult>("GET", `/jobs/${jobId}`);
+		if (job.status === "queued" || job.status === "running") throw new Error(`Job ${jobId} is ${job.status}`);
+		return job;
+	}, { timeout: 10_000, interval: 50 });
+}
+
+describe('bulk ingestion jobs in local mode', () => {
+	it('returns a job ID right away and indexes the documents in the background', async () => {
+		const response = await call("POST", "/jobs", { documents: DOCUMENTS });
+		expect(response.status).toBe(202);
+		const created = await response.json() as JobCreatedResult;
+		expect(created.status).toBe("queued");
+		expect(response.headers.get("Location")).toBe(created.statusUrl);
+
+		const job = await waitForJob(created.jobId);
+		expect(job.status).toBe("completed");
+		expect(job.progress).toMatchObject({ total: 2, processed: 2, succeeded: 2, failed: 0, pending: 0, percent: 100 });
+		expect(job.documents.map(document => document.id)).toEqual(["vacation-policy", "expense-policy"]);
+
+		const { matches } = await callJson<SearchResult>("POST", "/search", { query: "How many vacation days do employees receive?" });
+		expect(matches[0].id).toBe("vacation-policy");
+
+		// Sin documentos fallidos no hay nada que reintentar
+		expect((await call("POST", `${created.statusUrl}/retry`)).status).toBe(409);
+	});
+
+	it('rejects jobs larger than the body limit before validating them', async () => {
+		const documents = Array.from({ length: 6 }, (_, index) => ({ id: `large-${index}`, content: "a".repeat(900_000) }));
+		expect((await call("POST", "/jobs", { documents })).status).toBe(413);
+
+		const invalid = await call("POST", "/jobs", { documents: [] });
+		expect(invalid.status).toBe(400);
+		expect(await invalid.json()).toMatchObject({ error: "Invalid request", errors: [{ path: "body.documents" }] });
+	});
+
+	it('marks thrown errors as retryable and documents without content as final', async () => {
+		const local = localEnv(env);
+		// Mismo índice local, pero el upsert falla como un timeout de Vectorize
+		const vectorize = Object.assign(Object.create(local.VECTORIZE), { upsert: () => Promise.reject(new Error("Vectorize timed out")) });
+		const pending = [{ index: 0, ...DOCUMENTS[0] }, { index: 1, id: "blank", content: "   " }];
+
+		const results = await runIngestionBatch({ ...local, VECTORIZE: vectorize }, pending, resolveChunkOptions());
+		expect(results).toEqual([
+			{ index: 0, status: 'failed', error: "Vectorize timed out", retryable: true },
+			{ index: 1, status: 'failed', error: "Document has no content to index" }
+		]);
+	});
+
+	it('retries a failing batch with backoff and records the error on the job', async () => {
+		const stub = env.MyAgent.get(env.MyAgent.idFromName(JOBS_AGENT));
+		await runInDurableObject(stub, async (instance: MyAgent, state) => {
+			// Proveedor de embeddings mal configurado: ingestionBatch lanza antes de indexar nada
+			const agent = instance as unknown as { env: Env };
+			const original = agent.env;
+			agent.env = { ...original, LOCAL_MODE: "false", EMBEDDING_PROVIDER: "azure-openai", AZURE_OPENAI_EMBEDDING_DEPLOYMENT: undefined };
+			try {
+				const created = await instance.fetch(new Request("https://agent.internal/jobs", {
+					method: "POST",
+					body: JSON.stringify({ id: "job-broken", tenantId: "default", chunkOptions: resolveChunkOptions(), documents: [DOCUMENTS[0]] })
+				}));
+				expect(created.status).toBe(200);
+				const job = async () => (await (await instance.fetch(new Request("https://agent.internal/jobs/job-broken"))).json() as { job: IngestionJob }).job;
+
+				await instance.alarm();
+				const waiting = await job();
+				expect(waiting).toMatchObject({ status: "running", error: "EMBEDDING_PROVIDER=azure-openai requires AZURE_OPENAI_EMBEDDING_DEPLOYMENT" });
+				expect(waiting.documents[0]).toMatchObject({ status: "pending", attempts: 1 });
+				expect(Date.parse(waiting.documents[0].retryAt!)).toBeGreaterThan(Date.now());
+				expect(await state.storage.getAlarm()).toBe(Date.parse(waiting.documents[0].retryAt!));
+
+				// Al agotar los intentos el documento falla y el job termina
+				for (let attempt = 2; attempt <= MAX_JOB_ATTEMPTS; attempt++) {
+					state.storage.sql.exec("UPDATE ingestion_job_items SET retry_at = 0");
+					await instance.alarm();
+				}
+				const finished = await job();
+				expect(finished.status).toBe("completed_with_errors");
+				expect(finished.documents[0]).toMatchObject({ status: "failed", attempts: MAX_JOB_ATTEMPTS });
+			} finally {
+				agent.env = original;
+				await state.storage.deleteAlarm();
+			}
+		});
+	});
+
+	it('splits the documents into batches of the embedding model size', async () => {
+		// El embedder local acepta 32 textos por llamada: 40 documentos de un chunk son dos lotes
+		const pending = Array.from({ length: 40 }, (_, index) => ({ index, id: `note-${index}`, content: `Note number ${index} about batching.` }));
+		const chunkOptions = resolveChunkOptions();
+		expect(ingestionBatch(localEnv(env), pending, chunkOptions)).toHaveLength(32);
+
+		const { jobId } = await callJson<JobCreatedResult>("POST", "/jobs", { documents: pending.map(({ id, content }) => ({ id, content })) });
+		const job = await waitForJob(jobId);
+		expect(job.status).toBe("completed");
+		expect(job.progress).toMatchObject({ total: 40, succeeded: 40 });
+		expect(job.chunks).toBe(40);
+	});
+
+	it('reports per-document errors and retries the failed documents', async () => {
+		const { jobId } = await callJson<JobCreatedResult>("POST", "/jobs", { documents: [DOCUMENTS[0], { id: "blank", content: "   " }] });
+		const job = await waitForJob(jobId);
+		expect(job.status).toBe("completed_with_errors");
+		expect(job.documents[1]).toMatchObject({ id: "blank", status: "failed", attempts: 1, error: "Document has no content to index" });
+
+		const retry = await callJson<JobResult & { retried: number }>("POST", `/jobs/${jobId}/retry`);
+		expect(retry.retried).toBe(1);
+		expect(retry.job.status).toBe("queued");
+		expect(retry.job.documents[1].status).toBe("pending");
+
+		const retried = await waitForJob(jobId);
+		expect(retried.documents[1]).toMatchObject({ status: "failed", attempts: 2 });
+		expect(retried.documents[0]).toMatchObject({ status: "succeeded", attempts: 1 });
+	});
+});
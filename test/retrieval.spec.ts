@@ -0,0 +1,180 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { resolveChunkOptions } from '../src/chunking';
+import { resolveCitations } from '../src/citations';
+import { indexDocuments } from '../src/indexing';
+import { localEnv } from '../src/local';
+import { readSSEData, wantsEventStream } from '../src/streaming';
+import { tenantEnv } from '../src/tenants';
+import { call, callJson, DOCUMENTS, insertDocuments, type ChatResult, type DocumentResult, type InsertResult, type SearchResult } from './helpers';
+
+describe('retrieval in local mode', () => {
+	it('indexes documents and finds them with /search', async () => {
+		const inserted = await insertDocuments();
+		expect(inserted.inserted).toBe(2);
+
+		const { matches } = await callJson<SearchResult>("POST", "/search", { query: "How many vacation days do employees receive?", mode: "vector" });
+		expect(matches[0].id).toBe("vacation-policy");
+		expect(matches[0].chunks[0].content).toContain("twenty five vacation days");
+
+		// Reenviar los mismos documentos es un upsert sin cambios
+		const again = await insertDocuments();
+		expect(again).toMatchObject({ success: true, inserted: 2, chunks: 0 });
+		expect(again.documents.map(document => document.status)).toEqual(["unchanged", "unchanged"]);
+
+		// Mismo contenido con otro título: se reindexa para que el registro y los vectores lo reflejen
+		const renamed = await insertDocuments([{ ...DOCUMENTS[0], title: "Annual leave" }]);
+		expect(renamed.documents[0].status).toBe("updated");
+		expect((await callJson<DocumentResult>("GET", "/documents/vacation-policy")).document.title).toBe("Annual leave");
+		const { matches: [renamedMatch] } = await callJson<SearchResult>("POST", "/search", { query: "How many vacation days do employees receive?", mode: "vector" });
+		expect(renamedMatch).toMatchObject({ id: "vacation-policy", title: "Annual leave" });
+	});
+
+	it('splits paragraphs separated by Windows line endings', async () => {
+		const content = "Badges open the main door. Visitors sign in at reception.\r\n\r\nParking is free for staff. Bikes go in the basement.";
+		await callJson("POST", "/insert", { documents: [{ id: "office-guide", content }], chunkSize: 100, chunkOverlap: 0 });
+
+		const document = await callJson<DocumentResult>("GET", "/documents/office-guide");
+		expect(document.chunks.map(chunk => chunk.content.trim())).toEqual([
+			"Badges open the main door. Visitors sign in at reception.",
+			"Parking is free for staff. Bikes go in the basement."
+		]);
+	});
+
+	it('accepts the same upload again and moves a renamed file in R2', async () => {
+		const upload = (name: string) => {
+			const form = new FormData();
+			form.append("file", new File(["# Parking\n\nStaff park for free in the basement."], name, { type: "text/markdown" }));
+			return call("POST", "/upload", form);
+		};
+
+		const first = await upload("parking.md");
+		expect(first.status).toBe(200);
+		const { documents: [created] } = await first.json() as { documents: { id: string; status: string; r2Key: string }[] };
+		expect(created.status).toBe("created");
+
+		const again = await upload("parking.md");
+		expect(again.status).toBe(200);
+		expect(await again.json()).toMatchObject({ success: true, chunks: 0, documents: [{ id: created.id, status: "unchanged" }] });
+
+		// Mismo contenido con otro nombre: el registro apunta al archivo nuevo y el anterior se borra
+		const renamed = await upload("parking-v2.md");
+		expect(await renamed.json()).toMatchObject({ documents: [{ id: created.id, status: "updated", r2Key: `documents/${created.id}/parking-v2.md` }] });
+		expect((await call("GET", `/files/${created.r2Key}`)).status).toBe(404);
+		expect((await call("GET", `/files/documents/${created.id}/parking-v2.md`)).status).toBe(200);
+		expect((await call("GET", "/files/documents/%E0%A4%A")).status).toBe(400);
+
+		// Un cuerpo JSON no es un formulario: 400 y no 500
+		const notForm = await call("POST", "/upload", { file: "parking.md" });
+		expect(notForm.status).toBe(400);
+		expect(await notForm.json()).toMatchObject({ error: "Request body must be multipart/form-data" });
+	});
+
+	it('keeps invalid character references of an uploaded HTML file as they are', async () => {
+		const form = new FormData();
+		form.append("file", new File(["<p>Room &#x41;12 opens at 9 &#ab; &#99999999;</p>"], "rooms.html", { type: "text/html" }));
+
+		const response = await call("POST", "/upload", form);
+		expect(response.status).toBe(200);
+		const { documents: [uploaded] } = await response.json() as InsertResult;
+		const document = await callJson<DocumentResult>("GET", `/documents/${uploaded.id}`);
+		expect(document.chunks[0].content).toBe("Room A12 opens at 9 &#ab; &#99999999;");
+	});
+
+	it('rejects replacing a document with blank content', async () => {
+		await insertDocuments();
+
+		const response = await call("PUT", "/documents/vacation-policy", { content: "  \n\t " });
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: "Document has no content to index" });
+		const document = await callJson<DocumentResult>("GET", "/documents/vacation-policy");
+		expect(document.chunks[0].content).toContain("twenty five vacation days");
+	});
+
+	it('rejects an uploaded JSON file that does not parse', async () => {
+		const form = new FormData();
+		form.append("file", new File(["{ \"policy\": "], "policy.json", { type: "application/json" }));
+
+		const response = await call("POST", "/upload", form);
+		expect(response.status).toBe(422);
+		expect(await response.json()).toMatchObject({ error: "Invalid JSON file", details: [{ name: "policy.json" }] });
+	});
+
+	it('keeps the default tenant un-namespaced and other tenants out of its results', async () => {
+		await insertDocuments();
+		const acme = tenantEnv(localEnv(env), "acme");
+		await indexDocuments(acme, [{ id: "acme-vacation", content: "Acme employees receive thirty vacation days per year." }], resolveChunkOptions());
+
+		const { matches } = await callJson<SearchResult>("POST", "/search", { query: "How many vacation days do employees receive?", mode: "vector" });
+		expect(matches.map(match => match.id)).toContain("vacation-policy");
+		expect(matches.map(match => match.id)).not.toContain("acme-vacation");
+		expect(matches.every(match => !match.id.includes("/"))).toBe(true);
+	});
+
+	it('applies metadata filters and the keyword mode', async () => {
+		await insertDocuments();
+
+		const filtered = await callJson<SearchResult>("POST", "/search", { query: "vacation days", filter: { source: "finance" } });
+		expect(filtered.matches.map(match => match.id)).toEqual(["expense-policy"]);
+
+		const keyword = await callJson<SearchResult>("POST", "/search", { query: "receipts portal", mode: "keyword" });
+		expect(keyword.matches[0].id).toBe("expense-policy");
+	});
+
+	it('stops returning a document once it is deleted', async () => {
+		await insertDocuments();
+		const document = await callJson<DocumentResult>("GET", "/documents/vacation-policy");
+		expect(document.chunks.length).toBeGreaterThan(0);
+
+		expect((await call("DELETE", "/documents/vacation-policy")).status).toBe(200);
+
+		const { matches } = await callJson<SearchResult>("POST", "/search", { query: "vacation days", mode: "vector" });
+		expect(matches.map(match => match.id)).not.toContain("vacation-policy");
+	});
+
+	it('answers /chat from the retrieved passage and cites it', async () => {
+		await insertDocuments();
+
+		const result = await callJson<ChatResult>("POST", "/chat", { question: "How many vacation days do employees receive?", forceRAG: true });
+		expect(result.usedRAG).toBe(true);
+		expect(result.answer).toContain("Employees receive twenty five vacation days per year [1]");
+		expect(result.sources?.[0]).toMatchObject({ id: "vacation-policy", cited: true });
+
+		// Solo los números en el rango de los pasajes son marcadores; un [9110] es parte del texto
+		const passage = { marker: 1, chunkId: "vacation-policy#0", sourceId: "vacation-policy", content: DOCUMENTS[0].content };
+		const resolved = resolveCitations("Twenty five days [1], not thirty [2], per RFC [9110].", [passage]);
+		expect(resolved.answer).toBe("Twenty five days [1], not thirty, per RFC [9110].");
+		expect(resolved.invalidMarkers).toEqual([2]);
+	});
+
+	it('streams the answer as Server-Sent Events', async () => {
+		await insertDocuments();
+
+		const response = await call("POST", "/chat", { question: "When are travel expenses reimbursed?", forceRAG: true, stream: true });
+		expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+
+		const events = await response.text();
+		expect(events).toContain("event: sources");
+		expect(events).toContain("event: delta");
+		expect(events).toContain("event: done");
+
+		// Un `stream: false` explícito gana a la cabecera Accept
+		const accepts = new Request("https://rag.test/chat", { headers: { Accept: "text/event-stream" } });
+		expect(wantsEventStream(accepts, false)).toBe(false);
+		expect(wantsEventStream(accepts)).toBe(true);
+	});
+
+	it('gives up on a provider stream that stops sending data', async () => {
+		const stalled = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode("data: {\"response\":\"Employees\"}\n\n"));
+			}
+		});
+
+		const received: string[] = [];
+		await expect((async () => {
+			for await (const data of readSSEData(stalled, 50)) received.push(data);
+		})()).rejects.toThrow("Stream stalled: no data received for 50ms");
+		expect(received).toEqual(["{\"response\":\"Employees\"}"]);
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { callJson, insertDocuments, type ChatResult, type RoutingResult } from './helpers';
+
+const routeOf = (question: string, overrides = {}) => callJson<RoutingResult>("POST", "/agent/test", { question }, overrides);
+
+describe('routing in local mode', () => {
+	it('decides with the keyword lists first', async () => {
+		const general = await routeOf("Hello, how are you today?");
+		expect(general.routing).toMatchObject({ route: "GENERAL", method: "keyword" });
+
+		const rag = await routeOf("Search for information about the vacation policy");
+		expect(rag.routing).toMatchObject({ route: "RAG", method: "keyword" });
+	});
+
+	it('sends questions close to a stored chunk to RAG with the retrieval probe', async () => {
+		await insertDocuments();
+
+		const { routing } = await routeOf("Do employees receive vacation days per year?");
+		expect(routing.route).toBe("RAG");
+		expect(routing.method).toBe("retrieval-probe");
+		expect(routing.probeScore).toBeGreaterThanOrEqual(0.6);
+	});
+
+	it('answers GENERAL when the probe finds nothing in the knowledge base', async () => {
+		const { routing } = await routeOf("Which planet has the largest moon?");
+		expect(routing).toMatchObject({ route: "GENERAL", method: "retrieval-probe", reasoning: "The knowledge base returned no matches" });
+	});
+
+	it('uses LOCAL_CHAT_SCRIPT in the LLM step', async () => {
+		const overrides = {
+			ROUTING_STRATEGY: "llm",
+			LOCAL_CHAT_SCRIPT: JSON.stringify([{ match: "weather", route: "GENERAL" }])
+		};
+
+		const scripted = await routeOf("Will the weather be sunny tomorrow?", overrides);
+		expect(scripted.routing).toMatchObject({ route: "GENERAL", method: "llm", provider: "local", model: "scripted" });
+
+		// Sin regla, el router local manda la pregunta a la base de conocimientos
+		const unscripted = await routeOf("Who approves travel requests?", overrides);
+		expect(unscripted.routing).toMatchObject({ route: "RAG", method: "llm" });
+	});
+
+	it('answers GENERAL questions with the scripted reply', async () => {
+		const result = await callJson<ChatResult>("POST", "/chat", { question: "Hello, how are you?" }, {
+			LOCAL_CHAT_SCRIPT: JSON.stringify([{ match: "how are you", reply: "Fine, thanks!" }])
+		});
+		expect(result).toMatchObject({ agentDecision: "GENERAL", usedRAG: false, answer: "Fine, thanks!" });
+	});
+
+	it('searches the knowledge base in agent mode', async () => {
+		await insertDocuments();
+
+		const result = await callJson<ChatResult>("POST", "/chat", { question: "When are travel expenses reimbursed?", agent: true });
+		expect(result.agentDecision).toBe("AGENT");
+		expect(result.answer).toContain("thirty days");
+	});
+});
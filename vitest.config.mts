@@ -0,0 +1,16 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+	test: {
+		include: ['test/**/*.spec.ts'],
+		poolOptions: {
+			workers: {
+				wrangler: { configPath: './wrangler.toml' },
+				miniflare: {
+					// Modo local: sin Workers AI, Vectorize ni Azure OpenAI; el router sin caché para que cada test decida de nuevo
+					bindings: { LOCAL_MODE: "true", AUTH_DISABLED: "true", ROUTING_CACHE_TTL_SECONDS: "0" },
+				},
+			},
+		},
+	},
+});